@@ -0,0 +1,130 @@
+/**
+ * Benchmark: render a 500-item <Each> over a fixture timeline
+ *
+ *   bun run bench
+ *
+ * Renders the same AST several times with react-dom/server and reports
+ * the first (cold: expressions parsed and compiled) and following (warm:
+ * compiled expressions reused) render times.
+ *
+ * Then mounts it with react-dom/client and times re-renders after scope
+ * updates: one the items don't read (a form field, like typing into a
+ * composer above a feed), which memoized items skip, and one every item
+ * reads (`queries.events`), which re-renders them all.
+ */
+
+import "./fixtures/dom";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { NodeRenderer } from "@/components/NodeRenderer";
+import { ScopeProvider } from "@/hooks/usePageContext";
+import type { EvaluationScope } from "@/lib/evaluator";
+import { createTimeline } from "./fixtures/timeline";
+
+const ITEMS = 500;
+const RUNS = 10;
+
+const text = (value: string) => ({ type: "text", value });
+const expression = (value: string) => ({ type: "mdx_text_expression", value });
+const element = (name: string, attributes: any[], children: any[]) => ({
+  type: "mdx_jsx_element",
+  name,
+  attributes,
+  children,
+});
+const literal = (name: string, value: string) => ({ name, value, type: "literal" });
+const expr = (name: string, value: string) => ({ name, value, type: "expression" });
+
+// <Each from={queries.events} as="note">
+//   <VStack gap="1" p="2">
+//     <HStack gap="2">
+//       <Text weight="bold">{note.pubkey | short_key}</Text>
+//       <Text size="sm">{note.created_at | format_date("date")}</Text>
+//     </HStack>
+//     <Text>{note.content | truncate(80)}</Text>
+//     <If test={note | tags("t") | length > 0}>
+//       <Text size="xs">#{note | tag("t")}</Text>
+//     </If>
+//     <Text size="xs">{index + 1} of {queries.events | length}</Text>
+//   </VStack>
+// </Each>
+const ast = {
+  type: "root",
+  children: [
+    element("Each", [expr("from", "queries.events"), literal("as", "note")], [
+      element("VStack", [literal("gap", "1"), literal("p", "2")], [
+        element("HStack", [literal("gap", "2")], [
+          element("Text", [literal("weight", "bold")], [expression("note.pubkey | short_key")]),
+          element("Text", [literal("size", "sm")], [expression('note.created_at | format_date("date")')]),
+        ]),
+        element("Text", [], [expression("note.content | truncate(80)")]),
+        element("If", [expr("test", 'note | tags("t") | length > 0')], [
+          element("Text", [literal("size", "xs")], [text("#"), expression('note | tag("t")')]),
+        ]),
+        element("Text", [literal("size", "xs")], [
+          expression("index + 1"),
+          text(" of "),
+          expression("queries.events | length"),
+        ]),
+      ]),
+    ]),
+  ],
+};
+
+const scope: EvaluationScope = {
+  props: {},
+  queries: { events: createTimeline(ITEMS) },
+  state: {},
+  form: {},
+  updateForm: () => {},
+  executeAction: async () => {},
+  isPublishing: false,
+};
+
+const page = (scope: EvaluationScope) => (
+  <ScopeProvider value={scope}>
+    <NodeRenderer node={ast as any} keyName="bench" scope={scope} />
+  </ScopeProvider>
+);
+
+function render() {
+  const start = performance.now();
+  const html = renderToString(page(scope));
+  return { ms: performance.now() - start, size: html.length };
+}
+
+/** Mean time to re-render after each of RUNS scope updates */
+function rerender(update: (scope: EvaluationScope, run: number) => EvaluationScope) {
+  const root = createRoot(document.createElement("div") as unknown as Element);
+  flushSync(() => root.render(page(scope)));
+
+  let current = scope;
+  const times = Array.from({ length: RUNS }, (_, run) => {
+    current = update(current, run);
+    const start = performance.now();
+    flushSync(() => root.render(page(current)));
+    return performance.now() - start;
+  });
+  root.unmount();
+  return times.reduce((total, ms) => total + ms, 0) / times.length;
+}
+
+const cold = render();
+const warm = Array.from({ length: RUNS }, () => render().ms);
+const mean = warm.reduce((total, ms) => total + ms, 0) / warm.length;
+
+console.log(`Each over ${ITEMS} items (${(cold.size / 1024).toFixed(0)} KB of HTML)`);
+console.log(`  cold render: ${cold.ms.toFixed(1)} ms`);
+console.log(`  warm render: ${mean.toFixed(1)} ms mean, ${Math.min(...warm).toFixed(1)} ms best of ${RUNS}`);
+
+// A new page scope, as usePageContext builds on every change
+const unread = rerender((scope, run) => ({ ...scope, form: { draft: `typing ${run}` } }));
+const read = rerender((scope) => ({ ...scope, queries: { ...scope.queries, events: [...scope.queries!.events] } }));
+
+console.log(`Re-render after a scope update (mean of ${RUNS})`);
+console.log(`  form field no item reads: ${unread.toFixed(1)} ms`);
+console.log(`  queries.events, read by every item: ${read.toFixed(1)} ms`);
+
+// NostrContext's module-level pool and store keep the process alive
+process.exit(0);
@@ -0,0 +1,17 @@
+/**
+ * A happy-dom window installed as the global DOM, so react-dom/client can
+ * mount and re-render outside a browser. Import before anything from React.
+ */
+
+import { Window } from "happy-dom";
+
+const window = new Window({ url: "http://localhost/" });
+
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  navigator: window.navigator,
+  HTMLElement: window.HTMLElement,
+  Node: window.Node,
+  getComputedStyle: window.getComputedStyle.bind(window),
+});
@@ -0,0 +1,28 @@
+/**
+ * Deterministic fixture timeline: kind 1 notes from a handful of authors,
+ * newest first, shaped like what `queries.events` holds at runtime.
+ */
+
+import type { NostrEvent } from "nostr-tools";
+
+const AUTHORS = Array.from({ length: 12 }, (_, i) => i.toString(16).repeat(64).slice(0, 64));
+
+const WORDS = ["nostr", "relay", "zap", "hypernote", "page", "component", "timeline", "query", "event", "pubkey"];
+
+export function createTimeline(count: number, now = 1_700_000_000): NostrEvent[] {
+  return Array.from({ length: count }, (_, i) => {
+    const words = Array.from({ length: 20 + (i % 30) }, (_, w) => WORDS[(i + w * 7) % WORDS.length]);
+    return {
+      id: i.toString(16).padStart(64, "0"),
+      pubkey: AUTHORS[i % AUTHORS.length]!,
+      kind: 1,
+      created_at: now - i * 90,
+      content: words.join(" "),
+      tags: [
+        ["t", WORDS[i % WORDS.length]!],
+        ...(i % 3 === 0 ? [["e", (i + 1).toString(16).padStart(64, "0")]] : []),
+      ],
+      sig: "0".repeat(128),
+    };
+  });
+}
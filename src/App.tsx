@@ -6,6 +6,7 @@ import { Editor } from "@/components/Editor";
 import { IframeViewer } from "@/components/IframeViewer";
 import { NostrProvider } from "./components/NostrContext";
 import { Home } from "./components/Home";
+import { Toaster } from "./components/Toasts";
 
 export function App() {
   return (
@@ -18,6 +19,7 @@ export function App() {
         {/* Default route in a switch */}
         <Route>404: No such page!</Route>
       </Switch>
+      <Toaster />
     </NostrProvider>
   );
 }
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { dryRunAction, type DryRunResult } from "@/lib/actions";
+import type { EvaluationScope } from "@/lib/evaluator";
+import type { FieldRules } from "@/lib/validation";
+
+interface DryRunPanelProps {
+  actions: Record<string, unknown>;
+  scope: EvaluationScope;
+  rules: Record<string, FieldRules>;
+}
+
+/**
+ * Shows what an action would publish with the preview's current form,
+ * state and queries - nothing is signed or sent.
+ */
+export function DryRunPanel({ actions, scope, rules }: DryRunPanelProps) {
+  const names = Object.keys(actions);
+  const [selected, setSelected] = useState<string>();
+  const [result, setResult] = useState<DryRunResult | null>(null);
+
+  const action = selected && names.includes(selected) ? selected : names[0];
+  if (!action) return null;
+
+  const run = async () => setResult(await dryRunAction(action, actions, scope, rules));
+
+  return (
+    <div className="p-2 border-t border-neutral-300 text-sm">
+      <div className="flex items-center gap-2 mb-2">
+        <span className="font-bold">Dry run</span>
+        <select
+          value={action}
+          onChange={(e) => {
+            setSelected(e.target.value);
+            setResult(null);
+          }}
+          className="border border-neutral-400 rounded px-1 bg-white"
+        >
+          {names.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <button onClick={run} className="bg-neutral-700 hover:bg-neutral-600 text-white px-2 py-0.5 rounded">
+          Run
+        </button>
+      </div>
+
+      {result && (
+        <div className="flex flex-col gap-2">
+          {result.issues.map((issue) => (
+            <div key={issue} className="text-red-500">
+              {issue}
+            </div>
+          ))}
+          {result.unresolved.map((reference) => (
+            <div key={reference} className="text-yellow-700">
+              Unresolved: <code>{reference}</code>
+            </div>
+          ))}
+          {result.events.length === 0 && result.issues.length === 0 && (
+            <div className="text-neutral-500">
+              No events published ({result.steps.map((step) => step.type).join(", ") || "no steps"})
+            </div>
+          )}
+          {result.events.map((event, i) => (
+            <pre key={i} className="text-xs bg-neutral-900 text-neutral-200 p-2 rounded-sm whitespace-pre-wrap break-all">
+              {JSON.stringify(event, null, 2)}
+            </pre>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
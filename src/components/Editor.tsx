@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { MarkdownEditor } from "./MarkdownEditor";
 import { Preview } from "./Preview";
 import { PropertiesPanel } from "./PropertiesPanel";
@@ -9,11 +9,15 @@ import { UserProfile } from "./UserProfile";
 import { nip19, validateEvent, type EventTemplate } from "nostr-tools";
 import { slugify } from "@/lib/utils";
 import yaml from "yaml";
-import { usePages, useUserComponents } from "@/hooks/nostr";
+import { usePages, useUserComponents, useOutboxRelays } from "@/hooks/nostr";
+import { useComponents, useImportUpdates } from "@/hooks/useComponent";
+import { getDeclaredImports } from "@/lib/imports";
+import { diagnose, lineColumn } from "@/lib/diagnostics";
 import type { Event as NostrEvent } from "nostr-tools";
 import { Login } from "./Login";
-import { DEFAULT_RELAYS } from "@/lib/relays";
 import { Link } from "wouter";
+import { describePublish, publishEvent } from "@/lib/publish";
+import { showPublishToast, showToast } from "./Toasts";
 
 type DocType = "page" | "component";
 
@@ -28,6 +32,8 @@ This is my first page.
 
 const defaultComponentValue = `---
 name: MyComponent
+props:
+  message: { type: string, default: Hello, description: Text to show }
 ---
 
 {props.message}
@@ -48,8 +54,14 @@ export function Editor() {
   const [showProperties, setShowProperties] = useState(true);
   const [isPublishing, setIsPublishing] = useState(false);
   const [cursorOffset, setCursorOffset] = useState(0);
+  const [jumpTo, setJumpTo] = useState<{ offset: number }>();
   const pages = usePages(userPubkey ?? undefined);
   const components = useUserComponents(userPubkey ?? undefined);
+  const publishRelays = useOutboxRelays(userPubkey);
+  const declaredImports = getDeclaredImports(parsedAst);
+  const importUpdates = useImportUpdates(declaredImports);
+  const { components: importedComponents } = useComponents(declaredImports);
+  const diagnostics = useMemo(() => diagnose(parsedAst), [parsedAst]);
 
   // TODO: debounce this
   useEffect(() => {
@@ -73,7 +85,7 @@ export function Editor() {
 
   const handlePublish = async () => {
     if (isReadonly) {
-      alert("Login with extension to publish");
+      showToast({ kind: "error", message: "Login with extension to publish" });
       return;
     }
     setIsPublishing(true);
@@ -117,15 +129,17 @@ export function Editor() {
         throw new Error("Failed to verify event");
       }
 
-      const published = await nostr.pool.publish(DEFAULT_RELAYS, res);
-      if (published.length === 0) {
-        throw new Error("Failed to publish event");
+      const published = await publishEvent(nostr.pool, publishRelays, res);
+      if (published.accepted === 0) {
+        showPublishToast(describePublish(published), published);
+      } else {
+        // Only point at relays that actually have it
+        const relays = published.relays.filter((r) => r.status === "accepted").map((r) => r.relay);
+        const naddr = nip19.naddrEncode({ pubkey: userPubkey, kind: 32616, identifier: d, relays });
+        showPublishToast(`${describePublish(published)}: ${naddr}`, published);
       }
-
-      const naddr = nip19.naddrEncode({ pubkey: userPubkey, kind: 32616, identifier: d, relays: DEFAULT_RELAYS });
-      alert(`Published ${docType}: ${naddr}`);
     } catch (error) {
-      alert(error instanceof Error ? error.message : "Publish failed");
+      showToast({ kind: "error", message: error instanceof Error ? error.message : "Publish failed" });
     }
     setIsPublishing(false);
   };
@@ -271,15 +285,57 @@ export function Editor() {
             </div>
           </div>
         )}
-        <div className="flex-1 min-w-0">
-          <MarkdownEditor
-            value={value}
-            onChange={(value) => setValue(value)}
-            onCursorChange={setCursorOffset}
-          />
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex-1 min-h-0">
+            <MarkdownEditor
+              value={value}
+              onChange={(value) => setValue(value)}
+              onCursorChange={setCursorOffset}
+              cursor={jumpTo}
+            />
+          </div>
+          {diagnostics.length > 0 && (
+            <div className="max-h-40 overflow-auto bg-neutral-900 border-t border-neutral-700 text-sm">
+              <div className="text-xs uppercase text-neutral-400 px-2 pt-2 pb-1">Problems ({diagnostics.length})</div>
+              {diagnostics.map((diagnostic, i) => {
+                const { line, column } = lineColumn(parsedAst.source ?? value, diagnostic.start);
+                return (
+                  <button
+                    key={i}
+                    onClick={() => setJumpTo({ offset: diagnostic.start })}
+                    className="w-full text-left flex gap-2 px-2 py-1 hover:bg-neutral-700"
+                  >
+                    <span className={diagnostic.severity === "error" ? "text-red-400" : "text-yellow-400"}>
+                      {diagnostic.severity === "error" ? "✖" : "⚠"}
+                    </span>
+                    <span className="flex-1">{diagnostic.message}</span>
+                    <span className="text-neutral-500">
+                      {line}:{column}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
         <div className="flex-1 min-w-0 p-4 flex flex-col items-center gap-4 overflow-hidden">
-          <Preview ast={parsedAst} parseError={parseError} />
+          {importUpdates.map((update) => (
+            <div
+              key={update.name}
+              className="w-full flex justify-between items-center bg-neutral-800 border border-neutral-700 rounded-md px-3 py-2 text-sm"
+            >
+              <span>
+                <code>{update.name}</code>: newer version available
+              </span>
+              <button
+                onClick={() => setValue((value) => value.replace(update.ref, update.latestRef))}
+                className="text-purple-400 hover:text-purple-300"
+              >
+                Upgrade
+              </button>
+            </div>
+          ))}
+          <Preview ast={parsedAst} parseError={parseError} dryRun />
         </div>
         {showProperties && (
           <div className="w-[256px] p-3 bg-neutral-800 border-l border-neutral-700 overflow-auto">
@@ -289,6 +345,7 @@ export function Editor() {
               cursorOffset={cursorOffset}
               source={value}
               onSourceChange={setValue}
+              components={importedComponents}
             />
           </div>
         )}
@@ -1,4 +1,4 @@
-import { usePages } from "@/hooks/nostr";
+import { usePages, useOutboxRelays } from "@/hooks/nostr";
 import { Preview } from "./Preview";
 import { nip19, validateEvent, type EventTemplate, type Event as NostrEvent } from "nostr-tools";
 import { useNostr } from "./NostrContext";
@@ -9,11 +9,14 @@ import { useState } from "react";
 import { slugify } from "@/lib/utils";
 import yaml from "yaml";
 import { Link } from "wouter";
+import { describePublish, publishEvent } from "@/lib/publish";
+import { showPublishToast, showToast } from "./Toasts";
 
 export function Home() {
   const nostr = useNostr();
   const { pubkey, isReadonly, logout } = nostr;
   const pages = usePages();
+  const publishRelays = useOutboxRelays(pubkey);
   const [copying, setCopying] = useState<string | null>(null);
 
   const getTagValue = (event: NostrEvent, tagName: string) => {
@@ -23,7 +26,7 @@ export function Home() {
 
   const handleCopyToDrafts = async (page: NostrEvent) => {
     if (!pubkey || isReadonly) {
-      alert("Login with extension to copy pages");
+      showToast({ kind: "error", message: "Login with extension to copy pages" });
       return;
     }
 
@@ -64,10 +67,11 @@ export function Home() {
         throw new Error("Invalid event");
       }
 
-      await nostr.pool.publish(DEFAULT_RELAYS, signed);
-      alert("Copied to your drafts!");
+      const published = await publishEvent(nostr.pool, publishRelays, signed);
+      const message = published.accepted > 0 ? `Copied to your drafts. ${describePublish(published)}` : describePublish(published);
+      showPublishToast(message, published);
     } catch (error) {
-      alert(error instanceof Error ? error.message : "Copy failed");
+      showToast({ kind: "error", message: error instanceof Error ? error.message : "Copy failed" });
     }
     setCopying(null);
   };
@@ -5,9 +5,11 @@ interface Props {
   value: string;
   onChange: (value: string) => void;
   onCursorChange?: (offset: number) => void;
+  /** Move the cursor here (a new object each time, so the same offset can be jumped to twice) */
+  cursor?: { offset: number };
 }
 
-export function MarkdownEditor({ value, onChange, onCursorChange }: Props) {
+export function MarkdownEditor({ value, onChange, onCursorChange, cursor }: Props) {
     const ref = useRef<HTMLDivElement>(null);
     const editorRef = useRef<any>(null);
 
@@ -63,5 +65,13 @@ export function MarkdownEditor({ value, onChange, onCursorChange }: Props) {
       }
     }, [value]);
 
+    useEffect(() => {
+      const textarea = editorRef.current?.textarea;
+      if (!cursor || !textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(cursor.offset, cursor.offset);
+      onCursorChange?.(cursor.offset);
+    }, [cursor]);
+
     return <div ref={ref} style={{ height: '100%', width: '100%' }} />;
   }
@@ -1,8 +1,9 @@
 import type { AST, Node as MDXNode } from "zig-mdx";
-import { memo } from "react";
+import { Fragment, memo } from "react";
 import {
   evaluate,
   parseAttributes,
+  scopeReads,
   type EvaluationScope,
 } from "@/lib/evaluator";
 import type {
@@ -10,20 +11,124 @@ import type {
   JsxSelfClosingNode,
 } from "node_modules/zig-mdx/dist/types";
 import { builtinComponents } from "@/lib/builtins";
+import { getPropSchemas, resolveProps } from "@/lib/props";
+import { applyFilter } from "@/lib/filters";
+import { VirtualList } from "@/components/VirtualList";
 
 function renderChildren(
   children: MDXNode[],
   key: string,
   scope: EvaluationScope
 ) {
-  return children.map((child, index) => (
-    <NodeRenderer
-      key={`${key}-${index}`}
-      node={child}
-      keyName={`${key}-${index}`}
-      scope={scope ?? {}}
-    />
-  ));
+  const rendered: React.ReactNode[] = [];
+
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index]!;
+
+    // <If> consumes its trailing <ElseIf>/<Else> siblings
+    if (jsxName(child) === "if") {
+      const chain = collectConditionalChain(children, index);
+      const branch = chain.branches.find((b) => isBranchTaken(b, scope));
+      rendered.push(
+        <Fragment key={`${key}-${index}`}>
+          {branch?.type === "mdx_jsx_element"
+            ? renderChildren(branch.children, `${key}-${index}`, scope)
+            : null}
+        </Fragment>
+      );
+      index = chain.endIndex;
+      continue;
+    }
+
+    rendered.push(
+      <NodeRenderer
+        key={`${key}-${index}`}
+        node={child}
+        keyName={`${key}-${index}`}
+        scope={scope ?? {}}
+      />
+    );
+  }
+
+  return rendered;
+}
+
+// =============================================================================
+// CONDITIONALS
+// =============================================================================
+
+type ConditionalNode = JsxElementNode | JsxSelfClosingNode;
+
+/** Lowercased component name of a JSX node, undefined for other nodes */
+function jsxName(node: MDXNode | undefined): string | undefined {
+  if (node?.type === "mdx_jsx_element" || node?.type === "mdx_jsx_self_closing") {
+    return node.name.trim().toLowerCase();
+  }
+  return undefined;
+}
+
+function isWhitespace(node: MDXNode | undefined) {
+  return node?.type === "text" && node.value.trim() === "";
+}
+
+/**
+ * Collect an <If> followed by any <ElseIf> siblings and an optional <Else>.
+ * Whitespace-only text between the branches is skipped.
+ * Returns the branches in order and the index of the last consumed sibling.
+ */
+function collectConditionalChain(children: MDXNode[], start: number) {
+  const branches: ConditionalNode[] = [children[start] as ConditionalNode];
+  let endIndex = start;
+
+  for (let i = start + 1; i < children.length; i++) {
+    const next = children[i];
+    if (isWhitespace(next)) continue;
+    const name = jsxName(next);
+    if (name === "elseif") {
+      branches.push(next as ConditionalNode);
+      endIndex = i;
+      continue;
+    }
+    if (name === "else") {
+      branches.push(next as ConditionalNode);
+      endIndex = i;
+    }
+    break;
+  }
+
+  return { branches, endIndex };
+}
+
+function isBranchTaken(branch: ConditionalNode, scope: EvaluationScope) {
+  if (jsxName(branch) === "else") return true;
+  const attrs = parseAttributes(branch.attributes || [], scope);
+  return Boolean(attrs.test);
+}
+
+/**
+ * <Switch value={...}> renders the first <Case is="..."> whose value matches
+ * (loose equality, like `==` in expressions), or its <Default> child.
+ */
+function renderSwitch(
+  node: JsxElementNode,
+  key: string,
+  scope: EvaluationScope,
+  value: any
+) {
+  const cases = (node.children || []).filter((child: MDXNode) => {
+    const name = jsxName(child);
+    return name === "case" || name === "default";
+  }) as ConditionalNode[];
+
+  const match =
+    cases.find((c) => {
+      if (jsxName(c) !== "case") return false;
+      const attrs = parseAttributes(c.attributes || [], scope);
+      return attrs.is == value;
+    }) ?? cases.find((c) => jsxName(c) === "default");
+
+  if (!match || match.type !== "mdx_jsx_element") return null;
+  return <>{renderChildren(match.children, `${key}-case`, scope)}</>;
 }
 
 export function NodeRenderer({
@@ -168,36 +273,33 @@ function renderJsxElement(
 ) {
   const componentName = node.name.trim();
   const attrs = parseAttributes(node.attributes || [], scope);
-  const children = node.children
-    ? renderChildren(node.children, key, scope)
-    : null;
-
-  // Each is special - needs scope manipulation
-  if (componentName.toLowerCase() === "each") {
-    const fromArray = attrs.from;
-    const asName = attrs.as;
 
-    if (!fromArray || !Array.isArray(fromArray)) {
+  // Control flow - only render the children of the branch that is taken.
+  // <If> chains are resolved in renderChildren; reaching one here means
+  // it was rendered on its own, and a bare ElseIf/Else has no <If> before it.
+  switch (componentName.toLowerCase()) {
+    case "if":
+      return attrs.test ? <>{renderChildren(node.children, key, scope)}</> : null;
+    case "elseif":
+    case "else":
+      console.warn(`[${componentName}] must directly follow an <If> or <ElseIf>`);
       return null;
-    }
-    if (!asName) {
-      console.warn("[Each] 'as' attribute is required");
+    case "switch":
+      return renderSwitch(node, key, scope, attrs.value);
+    case "case":
+    case "default":
+      console.warn(`[${componentName}] must be a direct child of <Switch>`);
       return null;
-    }
+    case "slot":
+      return renderSlot(attrs, scope, renderChildren(node.children, key, scope));
+    case "fill":
+      console.warn(`[${componentName}] must be a direct child of an imported component`);
+      return null;
+  }
 
-    return (
-      <>
-        {fromArray.map((item: any, itemIndex: number) => {
-          const itemKey = item?.id || item?.pubkey || itemIndex;
-          const itemScope = {
-            ...scope,
-            [asName]: item,
-            index: itemIndex,
-          };
-          return <EachItem key={itemKey} node={node} itemScope={itemScope} />;
-        })}
-      </>
-    );
+  // Each is special - needs scope manipulation
+  if (componentName.toLowerCase() === "each") {
+    return renderEach(node, key, scope, attrs);
   }
 
   // Check built-in components (case-insensitive lookup)
@@ -206,55 +308,18 @@ function renderJsxElement(
   );
   if (builtinKey) {
     const BuiltinComponent = builtinComponents[builtinKey]!;
-    return <BuiltinComponent {...attrs}>{children}</BuiltinComponent>;
+    return <BuiltinComponent {...attrs}>{renderChildren(node.children, key, scope)}</BuiltinComponent>;
   }
 
-  // Check imported components from scope
-  if (scope.components?.[componentName]) {
-    const importedAst = scope.components[componentName];
-    // Render imported component with props passed via scope
-    return (
-      <NodeRenderer
-        node={importedAst}
-        keyName={`${key}-imported`}
-        scope={{ ...scope, props: attrs, components: {} }}
-      />
-    );
-  }
+  // Check imported components from scope (children fill its slots)
+  const imported = renderImported(componentName, attrs, key, scope, node.children);
+  if (imported) return imported;
 
   // Unknown component
   console.warn(`Unknown JSX component: ${componentName}`);
-  return <div className="unknown-component">{children}</div>;
+  return <div className="unknown-component">{renderChildren(node.children, key, scope)}</div>;
 }
 
-/**
- * Memoized component for each item in a list
- * Prevents re-rendering when other items change
- */
-const EachItem = memo(
-  ({
-    node,
-    key,
-    itemScope,
-  }: {
-    node: JsxElementNode;
-    key: string;
-    itemScope: EvaluationScope;
-  }) => {
-    return (
-      <div className="each-item">
-        {renderChildren((node as any).children, key, itemScope)}
-      </div>
-    );
-  },
-  (prev, next) => {
-    // Custom comparison - only re-render if the item itself changed
-    // Compare the item by reference (nostr events are stable objects)
-    // TODO: is this right? should we use ID? or key?
-    return prev.itemScope.item === next.itemScope.item;
-  }
-);
-
 function renderJsxSelfClosing(
   node: JsxSelfClosingNode,
   key: string,
@@ -263,6 +328,10 @@ function renderJsxSelfClosing(
   const componentName = node.name.trim();
   const attrs = parseAttributes(node.attributes || [], scope);
 
+  if (componentName.toLowerCase() === "slot") {
+    return renderSlot(attrs, scope, null);
+  }
+
   // Check built-in components (case-insensitive lookup)
   const builtinKey = Object.keys(builtinComponents).find(
     (k) => k.toLowerCase() === componentName.toLowerCase()
@@ -273,16 +342,319 @@ function renderJsxSelfClosing(
   }
 
   // Check imported components from scope
-  if (scope.components?.[componentName]) {
-    const importedAst = scope.components[componentName];
+  const imported = renderImported(componentName, attrs, key, scope);
+  if (imported) return imported;
+
+  return <div>Unknown self-closing component: {componentName}</div>;
+}
+
+// =============================================================================
+// LISTS
+// =============================================================================
+
+/**
+ * <Each from={queries.notes} as="note"> renders its children once per item,
+ * with the item bound under the `as` name.
+ *
+ *   key={note.id}        stable key per item (default: id, pubkey, then index)
+ *   sort="created_at"    sort by a field, or sort={note.tags | length} per item
+ *   reverse              reverse the (sorted) order
+ *   limit="10"           only the first N items
+ *   virtualize           only render the visible rows, for long feeds. The list
+ *                        scrolls in its own box, filling the rest of the page
+ *                        (height="600" for a fixed height, rowHeight="120"
+ *                        for the initial row height estimate)
+ *
+ * Inside the loop `index`, `count`, `first` and `last` describe the current
+ * item, and `outer` holds the same variables of an enclosing <Each>.
+ * An <Empty> child is rendered instead when the list has no items.
+ */
+function renderEach(node: JsxElementNode, key: string, scope: EvaluationScope, attrs: Record<string, any>) {
+  const asName = attrs.as;
+  if (!asName) {
+    console.warn("[Each] 'as' attribute is required");
+    return null;
+  }
+
+  const children: MDXNode[] = node.children ?? [];
+  const emptyNodes = children.filter((child) => jsxName(child) === "empty");
+  const itemNodes = children.filter((child) => jsxName(child) !== "empty");
+
+  if (!Array.isArray(attrs.from)) return null;
+  let items: any[] = attrs.from;
+
+  // key and sort expressions are evaluated per item, with the item bound
+  const attributes: any[] = node.attributes ?? [];
+  const keyAttr = attributes.find((attr) => attr.name === "key");
+  const sortAttr = attributes.find((attr) => attr.name === "sort");
+  const bind = (item: any): EvaluationScope => ({ ...scope, [asName]: item });
+
+  if (sortAttr?.type === "expression") {
+    const keyed = items.map((item) => ({ item, key: evaluate(String(sortAttr.value), bind(item)) }));
+    items = applyFilter("sort", keyed, ["key"]).map(({ item }: { item: any }) => item);
+  } else if (typeof attrs.sort === "string" && attrs.sort) {
+    items = applyFilter("sort", items, [attrs.sort]);
+  }
+  if (attrs.reverse === true || attrs.reverse === "true") {
+    items = [...items].reverse();
+  }
+  const limit = Number(attrs.limit);
+  if (attrs.limit !== undefined && Number.isFinite(limit)) {
+    items = items.slice(0, Math.max(0, limit));
+  }
+
+  if (items.length === 0) {
+    return emptyNodes.length > 0 ? (
+      <>{emptyNodes.flatMap((empty) => (empty.type === "mdx_jsx_element" ? renderChildren(empty.children, `${key}-empty`, scope) : []))}</>
+    ) : null;
+  }
+
+  const keys = items.map((item, itemIndex) =>
+    String(
+      (keyAttr?.type === "expression" ? evaluate(String(keyAttr.value), bind(item)) : undefined) ??
+        item?.id ??
+        item?.pubkey ??
+        itemIndex
+    )
+  );
+  const reads = itemScopeReads(node, itemNodes, asName);
+  const renderItem = (itemIndex: number) => (
+    <EachItem
+      key={keys[itemIndex]}
+      keyName={`${key}-${keys[itemIndex]}`}
+      nodes={itemNodes}
+      scope={scope}
+      reads={reads}
+      asName={asName}
+      item={items[itemIndex]}
+      index={itemIndex}
+      count={items.length}
+    />
+  );
+
+  if (attrs.virtualize === true || attrs.virtualize === "true") {
+    const rowHeight = Number(attrs.rowHeight);
+    // height="600" is pixels, height="50vh" any CSS length
+    const height = attrs.height === undefined || Number.isNaN(Number(attrs.height)) ? attrs.height : Number(attrs.height);
+    return (
+      <VirtualList
+        count={items.length}
+        getKey={(itemIndex) => keys[itemIndex]!}
+        renderItem={renderItem}
+        estimatedHeight={rowHeight > 0 ? rowHeight : undefined}
+        height={height}
+      />
+    );
+  }
+
+  return <>{items.map((_, itemIndex) => renderItem(itemIndex))}</>;
+}
+
+interface EachItemProps {
+  keyName: string;
+  nodes: MDXNode[];
+  /** Scope of the <Each> itself */
+  scope: EvaluationScope;
+  /** Paths of `scope` the item template reads, null to compare the whole scope */
+  reads: string[] | null;
+  asName: string;
+  item: any;
+  index: number;
+  count: number;
+}
+
+/**
+ * Memoized component for each item in a list
+ * Only re-renders when its item, its position or a part of the surrounding
+ * scope it reads changes - not when other items are added or removed around
+ * it, or when a query or form field it doesn't use updates. Builtins read the
+ * page scope from context, so they still update on their own.
+ */
+const EachItem = memo(
+  ({ keyName, nodes, scope, asName, item, index, count }: EachItemProps) => {
+    const itemScope: EvaluationScope = {
+      ...scope,
+      [asName]: item,
+      index,
+      count,
+      first: index === 0,
+      last: index === count - 1,
+      outer: scope.count === undefined
+        ? undefined
+        : { index: scope.index, count: scope.count, first: scope.first, last: scope.last, outer: scope.outer },
+    };
+    return <div className="each-item">{renderChildren(nodes, keyName, itemScope)}</div>;
+  },
+  (prev, next) =>
+    prev.item === next.item &&
+    prev.index === next.index &&
+    prev.count === next.count &&
+    prev.asName === next.asName &&
+    prev.nodes.length === next.nodes.length &&
+    prev.nodes.every((node, i) => node === next.nodes[i]) &&
+    (prev.scope === next.scope ||
+      (prev.reads !== null &&
+        prev.reads === next.reads &&
+        prev.reads.every((path) => readPath(prev.scope, path) === readPath(next.scope, path))))
+);
+
+/** Names each item binds itself, compared through EachItem's own props */
+const ITEM_NAMES = new Set(["index", "count", "first", "last"]);
+
+/** Scope entries every item may use without an expression naming them */
+const ALWAYS_READ = ["components", "imports", "slots"];
+
+const itemReadsCache = new WeakMap<JsxElementNode, { nodes: MDXNode[]; reads: string[] | null }>();
+
+/**
+ * Scope paths an <Each>'s item template reads (see `scopeReads`)
+ * null when that can't be known: imported components read whatever they like.
+ */
+function itemScopeReads(each: JsxElementNode, nodes: MDXNode[], asName: string): string[] | null {
+  const cached = itemReadsCache.get(each);
+  if (cached && cached.nodes.length === nodes.length && cached.nodes.every((node, i) => node === nodes[i])) {
+    return cached.reads;
+  }
+
+  const paths = new Set(ALWAYS_READ);
+  const visit = (node: any): boolean => {
+    if (node.type === "mdx_text_expression" || node.type === "mdx_flow_expression") {
+      scopeReads(String(node.value ?? "")).forEach((path) => paths.add(path));
+    }
+    if (node.type === "mdx_jsx_element" || node.type === "mdx_jsx_self_closing") {
+      const name = String(node.name ?? "").trim().toLowerCase();
+      const known =
+        !name ||
+        CONTROL_FLOW_TAGS.has(name) ||
+        Object.keys(builtinComponents).some((builtin) => builtin.toLowerCase() === name);
+      if (!known) return false;
+      for (const attr of node.attributes ?? []) {
+        if (attr.type !== "literal" && typeof attr.value === "string") {
+          scopeReads(attr.value).forEach((path) => paths.add(path));
+        }
+      }
+    }
+    const children: any[] = node.children ?? [];
+    return children.every(visit);
+  };
+
+  let reads: string[] | null = null;
+  if (nodes.every(visit)) {
+    reads = [...paths].flatMap((path) => {
+      const root = path.split(".")[0]!;
+      if (root === asName || ITEM_NAMES.has(root)) return [];
+      // `outer` is built from the enclosing loop's variables
+      if (root === "outer") return ["index", "count", "first", "last", "outer"];
+      return [path];
+    });
+  }
+  itemReadsCache.set(each, { nodes, reads });
+  return reads;
+}
+
+/** Tags NodeRenderer handles itself */
+const CONTROL_FLOW_TAGS = new Set(["if", "elseif", "else", "switch", "case", "default", "each", "empty", "slot", "fill"]);
+
+/** Value at a path from `scopeReads` ("queries.events") */
+function readPath(scope: EvaluationScope, path: string): unknown {
+  const [root, property] = path.split(".", 2) as [string, string | undefined];
+  const value = (scope as Record<string, any>)[root];
+  return property === undefined || value === undefined || value === null ? value : value[property];
+}
+
+// =============================================================================
+// SLOTS
+// =============================================================================
+
+const DEFAULT_SLOT = "default";
+
+/**
+ * <Slot /> renders the content the caller passed to the enclosing imported
+ * component, <Slot name="footer" /> the caller's <Fill slot="footer">.
+ * The Slot's own children are the fallback when nothing was passed.
+ */
+function renderSlot(attrs: Record<string, any>, scope: EvaluationScope, fallback: React.ReactNode) {
+  const content = scope.slots?.[attrs.name ?? DEFAULT_SLOT];
+  return <>{content ?? fallback}</>;
+}
+
+/**
+ * Render the caller's children for an imported component, keyed by slot.
+ * <Fill slot="..."> children go to their named slot, everything else to the
+ * default slot. Content is rendered with the caller's scope.
+ */
+function renderSlots(childNodes: MDXNode[], key: string, scope: EvaluationScope) {
+  const fills: Record<string, MDXNode[]> = {};
+  const rest: MDXNode[] = [];
+
+  for (const child of childNodes) {
+    if (jsxName(child) === "fill" && child.type === "mdx_jsx_element") {
+      const name = parseAttributes(child.attributes || [], scope).slot ?? DEFAULT_SLOT;
+      (fills[name] ??= []).push(...child.children);
+    } else if (jsxName(child) !== "fill") {
+      rest.push(child);
+    }
+  }
+
+  const slots: Record<string, React.ReactNode> = {};
+  if (rest.some((child) => !isWhitespace(child))) {
+    slots[DEFAULT_SLOT] = renderChildren(rest, `${key}-slot`, scope);
+  }
+  for (const [name, nodes] of Object.entries(fills)) {
+    slots[name] = renderChildren(nodes, `${key}-fill-${name}`, scope);
+  }
+  return slots;
+}
+
+/**
+ * Render an imported component, or a placeholder while it loads / if it failed.
+ * Returns null if `componentName` isn't imported at all.
+ */
+function renderImported(
+  componentName: string,
+  attrs: Record<string, any>,
+  key: string,
+  scope: EvaluationScope,
+  childNodes: MDXNode[] = []
+) {
+  const importedAst = scope.components?.[componentName];
+  if (importedAst) {
+    // Apply the component's declared prop schema (defaults, coercion, required)
+    const { props, errors } = resolveProps(attrs, getPropSchemas(importedAst));
+    if (errors.length > 0) {
+      return (
+        <div className="text-red-500 text-sm">
+          {componentName}: {errors.join(", ")}
+        </div>
+      );
+    }
+
+    // Render imported component with props passed via scope
+    // It only sees its own imports, not the page's
+    const own = scope.imports?.children[componentName];
     return (
       <NodeRenderer
         node={importedAst}
         keyName={`${key}-imported`}
-        scope={{ ...scope, props: attrs, components: {} }}
+        scope={{
+          ...scope,
+          props,
+          components: own?.components ?? {},
+          imports: own,
+          slots: renderSlots(childNodes, key, scope),
+        }}
       />
     );
   }
 
-  return <div>Unknown self-closing component: {componentName}</div>;
+  const status = scope.imports?.status[componentName];
+  if (!status) return null;
+  if (status.loading) {
+    return <div className="text-neutral-500 text-sm">Loading {componentName}...</div>;
+  }
+  return (
+    <div className="text-red-500 text-sm">
+      {componentName}: {status.error ?? "Failed to load"}
+    </div>
+  );
 }
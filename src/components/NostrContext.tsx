@@ -11,12 +11,16 @@ import { createContext, useContext, useState, useEffect, useCallback, useMemo }
 import { nip19 } from "nostr-tools";
 import { LOOKUP_RELAYS, DEFAULT_RELAYS } from "@/lib/relays";
 
-interface NostrContextValue {
+export interface NostrContextValue {
   eventStore: EventStore;
   pool: RelayPool;
   signer: ExtensionSigner;
   addressLoader: AddressPointerLoader;
   eventLoader: EventPointerLoader;
+  /** Old revisions for pinned component imports, kept out of `eventStore` */
+  pinnedEventStore: EventStore;
+  /** Loads events by id into `pinnedEventStore` */
+  pinnedEventLoader: EventPointerLoader;
   pubkey: string | null;
   isReadonly: boolean;
   hasExtension: boolean;
@@ -40,6 +44,16 @@ const eventLoader = createEventLoader(pool, {
 eventStore.addressableLoader = addressLoader;
 eventStore.replaceableLoader = addressLoader;
 
+// Pinned imports point at exact revisions that may since have been replaced.
+// They load into their own store that keeps old versions, so the shared
+// store stays latest-only for profiles, relay lists and pages.
+const pinnedEventStore = new EventStore();
+pinnedEventStore.keepOldVersions = true;
+const pinnedEventLoader = createEventLoader(pool, {
+  eventStore: pinnedEventStore,
+  extraRelays: DEFAULT_RELAYS,
+});
+
 export const NostrProvider = ({ children }: { children: React.ReactNode }) => {
   const [pubkey, setPubkey] = useState<string | null>(null);
   const [isReadonly, setIsReadonly] = useState(false);
@@ -112,6 +126,8 @@ export const NostrProvider = ({ children }: { children: React.ReactNode }) => {
     signer,
     addressLoader,
     eventLoader,
+    pinnedEventStore,
+    pinnedEventLoader,
     pubkey,
     isReadonly,
     hasExtension,
@@ -4,6 +4,8 @@ import { useMemo } from "react";
 import { NodeRenderer } from "@/components/NodeRenderer";
 import { usePageContext, ScopeProvider } from "@/hooks/usePageContext";
 import { parseColor, detectBgType } from "@/lib/styles";
+import { getValidationRules } from "@/lib/validation";
+import { DryRunPanel } from "@/components/DryRunPanel";
 
 interface PreviewProps {
   ast: AST;
@@ -11,9 +13,11 @@ interface PreviewProps {
   parseError?: string | null;
   /** "feed" constrains to 50vh-100vh (Instagram-style), "fullpage" gives full viewport */
   mode?: "feed" | "fullpage";
+  /** Show a dry-run panel for the page's actions (editor only) */
+  dryRun?: boolean;
 }
 
-export function Preview({ ast, naddr, parseError, mode = "feed" }: PreviewProps) {
+export function Preview({ ast, naddr, parseError, mode = "feed", dryRun = false }: PreviewProps) {
   // Parse frontmatter from AST
   const frontmatter = useMemo(() => {
     const fmNode = ast.children.find((child) => child.type === "frontmatter");
@@ -145,6 +149,10 @@ export function Preview({ ast, naddr, parseError, mode = "feed" }: PreviewProps)
         </div>
       </div>
 
+      {dryRun && frontmatter?.actions && (
+        <DryRunPanel actions={frontmatter.actions} scope={scope} rules={getValidationRules(frontmatter)} />
+      )}
+
       <div className="p-2 border-t border-neutral-300 max-h-64 overflow-y-auto">
         <pre className="text-xs bg-neutral-900 text-neutral-200 p-4 rounded-sm whitespace-pre-wrap break-all">
           {JSON.stringify(ast, null, 2)}
@@ -5,12 +5,17 @@ import {
   TEXT_PROPERTIES,
   type PropertyDefinition,
 } from "@/lib/styles";
+import { getPropSchemas, toPropertyDefinitions } from "@/lib/props";
+import { parseExpression } from "@/lib/expression";
+import { collectFilterNames, formatFilterSignature, getFilter } from "@/lib/filters";
 
 interface Props {
   ast: AST | null;
   cursorOffset: number;
   source: string;
   onSourceChange: (newSource: string) => void;
+  /** Imported component ASTs by name, their prop schemas drive the fields */
+  components?: Record<string, any>;
 }
 
 // Map component names to their property definitions
@@ -38,9 +43,10 @@ const GROUP_LABELS: Record<string, string> = {
   spacing: "Spacing",
   text: "Text",
   alignment: "Alignment",
+  props: "Props",
 };
 
-export function PropertiesPanel({ ast, cursorOffset, source, onSourceChange }: Props) {
+export function PropertiesPanel({ ast, cursorOffset, source, onSourceChange, components }: Props) {
   if (!ast) {
     return <div className="text-neutral-500 text-sm">No AST</div>;
   }
@@ -59,7 +65,9 @@ export function PropertiesPanel({ ast, cursorOffset, source, onSourceChange }: P
   // Check if this is a JSX element we can edit
   const isJsxElement = node.type === "mdx_jsx_element" || node.type === "mdx_jsx_self_closing";
   const componentName = isJsxElement && "name" in node ? (node.name as string)?.toLowerCase() : null;
-  const properties = componentName ? COMPONENT_PROPERTIES[componentName] : null;
+  const properties = componentName
+    ? COMPONENT_PROPERTIES[componentName] ?? importedProperties(components?.[String((node as JsxNode).name).trim()])
+    : null;
 
   return (
     <div className="text-sm space-y-3">
@@ -83,10 +91,20 @@ export function PropertiesPanel({ ast, cursorOffset, source, onSourceChange }: P
       )}
 
       {!isJsxElement && <NodeProperties node={node} />}
+
+      {(node.type === "mdx_text_expression" || node.type === "mdx_flow_expression") && "value" in node && (
+        <FilterDocs expression={String(node.value)} />
+      )}
     </div>
   );
 }
 
+/** Fields for an imported component, from its `props:` schema */
+function importedProperties(componentAst: any): PropertyDefinition[] | null {
+  const schemas = getPropSchemas(componentAst);
+  return schemas ? toPropertyDefinitions(schemas) : null;
+}
+
 type JsxNode = {
   type: "mdx_jsx_element" | "mdx_jsx_self_closing";
   name: string;
@@ -263,7 +281,10 @@ function PropertyInput({ property, value, onChange }: PropertyInputProps) {
       </button>
 
       {/* Property name */}
-      <span className={`text-xs w-20 truncate ${isSet ? "text-neutral-200" : "text-neutral-500"}`}>
+      <span
+        className={`text-xs w-20 truncate ${isSet ? "text-neutral-200" : "text-neutral-500"}`}
+        title={property.description}
+      >
         {property.name}
       </span>
 
@@ -349,3 +370,38 @@ function NodeProperties({ node }: { node: Node }) {
     </div>
   );
 }
+
+/** Docs for the filters used in an expression */
+function FilterDocs({ expression }: { expression: string }) {
+  let names: string[];
+  try {
+    names = collectFilterNames(parseExpression(expression.trim().replace(/^{|}$/g, "")));
+  } catch {
+    return null;
+  }
+  if (names.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-xs uppercase text-neutral-400 mb-1">Filters</div>
+      <div className="space-y-2">
+        {names.map((name) => {
+          const filter = getFilter(name);
+          return (
+            <div key={name}>
+              <div className="text-purple-400 font-mono text-xs">
+                {filter ? formatFilterSignature(filter) : name}
+              </div>
+              <div className="text-neutral-400 text-xs">
+                {filter ? filter.description : "Unknown filter"}
+              </div>
+              {filter?.example && (
+                <div className="text-neutral-500 font-mono text-xs">{filter.example}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useObservableState } from "observable-hooks";
+import { BehaviorSubject } from "rxjs";
+import type { PublishResult, RelayStatus } from "@/lib/publish";
+
+export interface Toast {
+  id: number;
+  kind: "success" | "warning" | "error";
+  message: string;
+  /** Per-relay results, shown when the toast is expanded */
+  publish?: PublishResult;
+}
+
+const toasts$ = new BehaviorSubject<Toast[]>([]);
+let nextId = 1;
+
+/** How long successful toasts stay up; warnings and errors stay until closed */
+const SUCCESS_DURATION = 6_000;
+
+/**
+ * Show a notice in the corner of the screen without blocking the page
+ * Returns the toast's id, for `dismissToast`.
+ */
+export function showToast(toast: Omit<Toast, "id">): number {
+  const id = nextId++;
+  toasts$.next([...toasts$.value, { ...toast, id }]);
+  if (toast.kind === "success") setTimeout(() => dismissToast(id), SUCCESS_DURATION);
+  return id;
+}
+
+export function dismissToast(id: number) {
+  toasts$.next(toasts$.value.filter((toast) => toast.id !== id));
+}
+
+/**
+ * Toast for a finished publish: success when every relay accepted, a warning
+ * when only some did and an error when none did
+ */
+export function showPublishToast(message: string, publish: PublishResult): number {
+  const kind = publish.accepted === 0 ? "error" : publish.accepted < publish.relays.length ? "warning" : "success";
+  return showToast({ kind, message, publish });
+}
+
+const KIND_CLASSES: Record<Toast["kind"], string> = {
+  success: "border-green-600",
+  warning: "border-yellow-500",
+  error: "border-red-500",
+};
+
+const STATUS_CLASSES: Record<RelayStatus, string> = {
+  accepted: "text-green-400",
+  rejected: "text-red-400",
+  timeout: "text-yellow-400",
+};
+
+/** Renders the current toasts, mounted once at the app root */
+export function Toaster() {
+  const toasts = useObservableState(toasts$, toasts$.value);
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-96 max-w-[calc(100vw-2rem)]">
+      {toasts.map((toast) => (
+        <ToastItem key={toast.id} toast={toast} />
+      ))}
+    </div>
+  );
+}
+
+function ToastItem({ toast }: { toast: Toast }) {
+  const [expanded, setExpanded] = useState(false);
+  const relays = toast.publish?.relays ?? [];
+
+  return (
+    <div className={`bg-neutral-800 text-neutral-100 text-sm rounded shadow-lg border-l-4 p-3 ${KIND_CLASSES[toast.kind]}`}>
+      <div className="flex items-start gap-2">
+        <div className="flex-1 break-words">{toast.message}</div>
+        {relays.length > 0 && (
+          <button onClick={() => setExpanded(!expanded)} className="text-neutral-400 hover:text-neutral-200 text-xs">
+            {expanded ? "Hide relays" : "Relays"}
+          </button>
+        )}
+        <button onClick={() => dismissToast(toast.id)} className="text-neutral-400 hover:text-neutral-200" aria-label="Dismiss">
+          ×
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-2 flex flex-col gap-1 text-xs">
+          {relays.map((result) => (
+            <li key={result.relay}>
+              <span className={STATUS_CLASSES[result.status]}>{result.status}</span>{" "}
+              <span className="font-mono">{result.relay}</span>
+              {result.attempts > 1 && <span className="text-neutral-500"> after {result.attempts} attempts</span>}
+              {result.message && <div className="text-neutral-400 break-words">{result.message}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState, type ReactNode } from "react";
+
+interface VirtualListProps {
+  count: number;
+  /** Stable key of each row, so measured heights follow items around */
+  getKey: (index: number) => string;
+  renderItem: (index: number) => ReactNode;
+  /** Height assumed for rows that haven't been measured yet */
+  estimatedHeight?: number;
+  /** Extra rows rendered above and below the visible ones */
+  overscan?: number;
+  /** Fixed height of the list (px or any CSS length); by default it fills the space its flex parent leaves */
+  height?: number | string;
+}
+
+/**
+ * Renders only the rows that are visible in its own scroll container
+ * By default the container grows to fill the rest of a flex column (like the
+ * preview's content layer) and scrolls inside it; in a parent without a fixed
+ * height, set `height` or every row ends up visible.
+ * Rows can be any height: each is measured after render and the spacers
+ * above and below the visible window are sized from those measurements.
+ */
+export function VirtualList({ count, getKey, renderItem, estimatedHeight = 80, overscan = 4, height }: VirtualListProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Bumped when a row's measured height changes, to recompute offsets
+  const [, setMeasured] = useState(0);
+
+  const update = useCallback(() => {
+    const scroller = scrollerRef.current;
+    if (scroller) setViewport({ top: scroller.scrollTop, height: scroller.clientHeight });
+  }, []);
+
+  // The visible height changes with the window and the page layout
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    update();
+    if (typeof ResizeObserver === "undefined") {
+      window.addEventListener("resize", update);
+      return () => window.removeEventListener("resize", update);
+    }
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [update]);
+
+  // Offset of every row from the top of the list
+  const offsets: number[] = [0];
+  for (let i = 0; i < count; i++) {
+    offsets.push(offsets[i]! + (heights.current.get(getKey(i)) ?? estimatedHeight));
+  }
+  const total = offsets[count]!;
+  const { start, end } = visibleRange(offsets, viewport.top, viewport.height, overscan);
+
+  const measure = useCallback((key: string, element: HTMLDivElement | null) => {
+    if (!element) return;
+    const height = element.getBoundingClientRect().height;
+    if (height > 0 && heights.current.get(key) !== height) {
+      heights.current.set(key, height);
+      setMeasured((n) => n + 1);
+    }
+  }, []);
+
+  const rows: ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    const key = getKey(i);
+    rows.push(<MeasuredRow key={key} rowKey={key} onMeasure={measure}>{renderItem(i)}</MeasuredRow>);
+  }
+
+  return (
+    <div
+      ref={scrollerRef}
+      onScroll={update}
+      style={height !== undefined ? { height, overflowY: "auto" } : { flexGrow: 1, minHeight: 0, overflowY: "auto" }}
+    >
+      <div style={{ height: total, position: "relative" }}>
+        <div style={{ position: "absolute", top: offsets[start], left: 0, right: 0 }}>{rows}</div>
+      </div>
+    </div>
+  );
+}
+
+/** Reports its height after every render and whenever it resizes (images loading, text wrapping) */
+function MeasuredRow({
+  rowKey,
+  onMeasure,
+  children,
+}: {
+  rowKey: string;
+  onMeasure: (key: string, element: HTMLDivElement | null) => void;
+  children: ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => onMeasure(rowKey, ref.current));
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => onMeasure(rowKey, element));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [rowKey, onMeasure]);
+
+  return <div ref={ref}>{children}</div>;
+}
+
+/**
+ * Rows overlapping [top, top + height], plus `overscan` rows either side
+ * `offsets` has one entry per row plus the total height at the end.
+ */
+function visibleRange(offsets: number[], top: number, height: number, overscan: number) {
+  const count = offsets.length - 1;
+  let start = 0;
+  while (start < count && offsets[start + 1]! <= top) start++;
+  let end = start;
+  while (end < count && offsets[end]! < top + height) end++;
+  return { start: Math.max(0, start - overscan), end: Math.min(count, end + overscan) };
+}
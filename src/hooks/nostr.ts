@@ -1,12 +1,13 @@
-import type { ProfileContent } from "applesauce-core/helpers";
+import { mergeRelaySets, type ProfileContent } from "applesauce-core/helpers";
 import { useContext, useMemo } from "react";
 import { useObservableMemo } from "./use-observable-memo";
-import { NostrContext } from "@/components/NostrContext";
+import { NostrContext, type NostrContextValue } from "@/components/NostrContext";
 import { onlyEvents } from "applesauce-relay";
 import { mapEventsToStore, mapEventsToTimeline } from "applesauce-core/observable";
-import { first, map, startWith, tap } from "rxjs";
+import { first, map, of, startWith, switchMap, tap } from "rxjs";
 import { nip19 } from "nostr-tools";
 import { DEFAULT_RELAYS } from "@/lib/relays";
+import { getAuthorRelays } from "@/lib/outbox";
 
 export function useNostr() {
     return useContext(NostrContext);
@@ -30,24 +31,35 @@ export function useProfile(
 export function usePages(authorPubkey?: string) {
   const nostr = useNostr();
   return useObservableMemo(
-    () => {
-      const filter: any = { kinds: [32616], "#t": ["hypernote-v1.3.0"], limit: 20 };
-      if (authorPubkey) {
-        filter.authors = [authorPubkey];
-      }
-      return nostr?.pool.relay(DEFAULT_RELAYS[0]!).subscription([filter])
-      .pipe(
-        onlyEvents(),
-        mapEventsToStore(nostr?.eventStore),
-        mapEventsToTimeline(),
-        map((t) => [...t]),
-        startWith([]),
-      );
-    },
+    () => (nostr ? documentTimeline(nostr, "hypernote-v1.3.0", authorPubkey) : undefined),
     [nostr?.eventStore, authorPubkey]
   );
 }
 
+/**
+ * Live timeline of kind 32616 documents with a "t" tag, optionally by one author.
+ * Reads from the default relays plus the author's write relays, deduplicating
+ * by id through the event store.
+ */
+function documentTimeline(nostr: NostrContextValue, tag: string, authorPubkey?: string) {
+  const filter: any = { kinds: [32616], "#t": [tag], limit: 20 };
+  if (authorPubkey) {
+    filter.authors = [authorPubkey];
+  }
+  const relays$ = authorPubkey
+    ? getAuthorRelays(nostr.eventStore, authorPubkey).pipe(map((outboxes) => mergeRelaySets(DEFAULT_RELAYS, outboxes)))
+    : of(DEFAULT_RELAYS);
+
+  return relays$.pipe(
+    switchMap((relays) => nostr.pool.subscription(relays, [filter], { eventStore: nostr.eventStore })),
+    onlyEvents(),
+    mapEventsToStore(nostr.eventStore),
+    mapEventsToTimeline(),
+    map((t) => [...t]),
+    startWith([]),
+  );
+}
+
 export function usePage(naddr: string) {
   const nostr = useNostr();
 
@@ -58,7 +70,7 @@ export function usePage(naddr: string) {
       const decoded = nip19.decode(naddr);
       if (decoded.type !== "naddr") return null;
       const { pubkey, identifier, relays } = decoded.data;
-      return { pubkey, identifier, relays: relays?.length ? relays : DEFAULT_RELAYS };
+      return { pubkey, identifier, relays };
     } catch {
       return null;
     }
@@ -67,15 +79,19 @@ export function usePage(naddr: string) {
   // Always call the hook - return undefined observable if invalid
   return useObservableMemo(
     () => {
-      if (!parsed) return undefined;
-      return nostr?.pool.relay(parsed.relays[0]!).subscription([{
-        kinds: [32616],
-        limit: 1,
-        "#d": [parsed.identifier],
-        authors: [parsed.pubkey]
-      }]).pipe(
+      if (!parsed || !nostr) return undefined;
+      // Read from the naddr relay hints plus the author's write relays
+      return getAuthorRelays(nostr.eventStore, parsed.pubkey).pipe(
+        switchMap((outboxes) =>
+          nostr.pool.subscription(mergeRelaySets(parsed.relays, outboxes), [{
+            kinds: [32616],
+            limit: 1,
+            "#d": [parsed.identifier],
+            authors: [parsed.pubkey]
+          }], { eventStore: nostr.eventStore })
+        ),
         onlyEvents(),
-        mapEventsToStore(nostr?.eventStore),
+        mapEventsToStore(nostr.eventStore),
         first(),
       );
     },
@@ -83,26 +99,26 @@ export function usePage(naddr: string) {
   );
 }
 
+/**
+ * A user's write relays (NIP-65), or DEFAULT_RELAYS if they have no relay list
+ * Use these when publishing on the user's behalf
+ */
+export function useOutboxRelays(pubkey?: string | null): string[] {
+  const nostr = useNostr();
+  const relays = useObservableMemo(
+    () => (pubkey && nostr ? getAuthorRelays(nostr.eventStore, pubkey) : undefined),
+    [pubkey, nostr?.eventStore]
+  );
+  return relays ?? DEFAULT_RELAYS;
+}
+
 /**
  * Fetch user's published components (hypernote-component tag)
  */
 export function useUserComponents(authorPubkey?: string) {
   const nostr = useNostr();
   return useObservableMemo(
-    () => {
-      const filter: any = { kinds: [32616], "#t": ["hypernote-component"], limit: 20 };
-      if (authorPubkey) {
-        filter.authors = [authorPubkey];
-      }
-      return nostr?.pool.relay(DEFAULT_RELAYS[0]!).subscription([filter])
-      .pipe(
-        onlyEvents(),
-        mapEventsToStore(nostr?.eventStore),
-        mapEventsToTimeline(),
-        map((t) => [...t]),
-        startWith([]),
-      );
-    },
+    () => (nostr ? documentTimeline(nostr, "hypernote-component", authorPubkey) : undefined),
     [nostr?.eventStore, authorPubkey]
   );
-}
\ No newline at end of file
+}
@@ -1,6 +1,40 @@
 import { useMemo } from "react";
-import { usePage } from "./nostr";
-import { parseAddress } from "@/lib/nip19";
+import type { Filter, NostrEvent } from "nostr-tools";
+import { getReplaceableIdentifier, mergeRelaySets } from "applesauce-core/helpers";
+import {
+  catchError,
+  combineLatest,
+  defaultIfEmpty,
+  distinctUntilChanged,
+  map,
+  merge,
+  of,
+  scan,
+  shareReplay,
+  startWith,
+  switchMap,
+  take,
+  type Observable,
+} from "rxjs";
+import { usePage, useNostr } from "./nostr";
+import { useObservableMemo } from "./use-observable-memo";
+import { parseAddress, type ParsedAddress } from "@/lib/nip19";
+import { getAuthorRelays } from "@/lib/outbox";
+import {
+  addressKey,
+  checkImports,
+  EMPTY_IMPORTS,
+  getDeclaredImports,
+  MAX_IMPORT_DEPTH,
+  parseImportRef,
+  pinnedRef,
+  type ComponentImports,
+  type ImportRef,
+  type ImportPathEntry,
+  type ImportStatus,
+  type PendingImport,
+} from "@/lib/imports";
+import type { NostrContextValue } from "@/components/NostrContext";
 
 /**
  * Load a component by naddr
@@ -36,42 +70,298 @@ export function useComponent(naddr: string | undefined) {
 }
 
 /**
- * Load multiple components by naddr
- * Returns a map of component name -> AST
+ * Load any number of components by naddr, along with everything they import
+ * Each import list is batched into one subscription per relay.
+ *
+ * @example
+ * // imports:
+ * //   Card: naddr1...
+ * //   Avatar: naddr1...
+ * const { components, status, children } = useComponents(frontmatter.imports);
+ * components.Card        // AST once loaded
+ * status.Avatar.loading  // true until found or every relay has answered
+ * children.Card          // Card's own imports, resolved the same way
  */
 export function useComponents(
-  imports: Record<string, string> | undefined
-): Record<string, any> {
-  // We need to call hooks unconditionally, so we create a stable list of imports
-  const importEntries = useMemo(
-    () => Object.entries(imports ?? {}),
-    [imports]
+  imports: Record<string, string> | undefined,
+  maxDepth: number = MAX_IMPORT_DEPTH
+): ComponentImports {
+  const nostr = useNostr();
+
+  // Frontmatter is re-parsed on every edit, so key on content rather than identity
+  const importsKey = JSON.stringify(imports ?? {});
+
+  return useObservableMemo(
+    () => (nostr ? loadImportTree(imports ?? {}, [], maxDepth, nostr) : undefined),
+    [importsKey, maxDepth, nostr?.eventStore, nostr?.pool]
+  ) ?? EMPTY_IMPORTS;
+}
+
+/** A pinned import whose address has a newer revision */
+export interface ImportUpdate {
+  name: string;
+  /** The import as declared */
+  ref: string;
+  /** The same import pinned to the latest revision */
+  latestRef: string;
+}
+
+/**
+ * Find pinned imports that are behind the latest revision of their address
+ * Unpinned imports always float to the latest revision, so they never show up.
+ *
+ * @example
+ * const updates = useImportUpdates({ Card: "naddr1...@<old id>" });
+ * // [{ name: "Card", ref: "naddr1...@<old id>", latestRef: "naddr1...@<new id>" }]
+ */
+export function useImportUpdates(imports: Record<string, string> | undefined): ImportUpdate[] {
+  const nostr = useNostr();
+  const importsKey = JSON.stringify(imports ?? {});
+
+  return useObservableMemo(() => {
+    if (!nostr) return undefined;
+
+    const checks = Object.entries(imports ?? {}).flatMap(([name, ref]) => {
+      let parsed: ImportRef;
+      try {
+        parsed = parseImportRef(ref);
+      } catch {
+        return [];
+      }
+      const { address, pin } = parsed;
+      if (!pin) return [];
+
+      // nevent pins only know their address once the pinned event loads
+      const pinned$ = nostr.pinnedEventLoader({ id: pin.id, relays: mergeRelaySets(pin.relays, address?.relays) }).pipe(take(1));
+      const address$: Observable<ParsedAddress> = address
+        ? of(address)
+        : pinned$.pipe(
+            map((event) => ({ kind: event.kind, pubkey: event.pubkey, identifier: getReplaceableIdentifier(event), relays: pin.relays })),
+          );
+
+      return [
+        address$.pipe(
+          switchMap((address) => nostr.eventStore.replaceable(address).pipe(
+            map((latest): ImportUpdate | null => {
+              const current = nostr.pinnedEventStore.getEvent(pin.id) ?? nostr.eventStore.getEvent(pin.id);
+              if (!latest || latest.id === pin.id || (current && current.created_at >= latest.created_at)) return null;
+              return { name, ref, latestRef: pinnedRef(address, latest.id) };
+            }),
+          )),
+          startWith(null),
+        ),
+      ];
+    });
+
+    return checks.length > 0
+      ? combineLatest(checks).pipe(map((updates) => updates.filter((update) => update !== null)))
+      : of([]);
+  }, [importsKey, nostr?.eventStore, nostr?.pinnedEventLoader]) ?? [];
+}
+
+type LoadedImport = ImportStatus & { ast?: any };
+type FloatingImport = PendingImport & { address: ParsedAddress };
+
+/**
+ * Resolve one level of imports, then recurse into the imports of every
+ * component that loads. `path` is the chain of components above this level.
+ */
+function loadImportTree(
+  imports: Record<string, string>,
+  path: ImportPathEntry[],
+  maxDepth: number,
+  nostr: NostrContextValue
+): Observable<ComponentImports> {
+  const { pending, errors } = checkImports(imports, path, maxDepth);
+  if (pending.length === 0) return of({ ...EMPTY_IMPORTS, status: errors });
+
+  // Floating imports share batched subscriptions, pinned ones load by id
+  const floating = pending.filter((entry): entry is FloatingImport => !entry.pin && !!entry.address);
+  const pinned = pending.filter((entry) => entry.pin);
+  const loaded$ = combineLatest([
+    floating.length > 0 ? loadComponents(floating, nostr) : of({}),
+    ...pinned.map((entry) => loadPinned(entry, nostr).pipe(map((status) => ({ [entry.name]: status })))),
+  ]).pipe(
+    map((results): Record<string, LoadedImport> => Object.assign({}, ...results)),
+    shareReplay({ bufferSize: 1, refCount: true })
   );
 
-  // Load each component - hooks must be called unconditionally
-  // We'll use a single usePage call pattern that works with our constraints
-  const component0 = usePage(importEntries[0]?.[1] ?? "");
-  const component1 = usePage(importEntries[1]?.[1] ?? "");
-  const component2 = usePage(importEntries[2]?.[1] ?? "");
-  const component3 = usePage(importEntries[3]?.[1] ?? "");
+  // Only re-resolve nested imports when a component's AST actually changes
+  const children$ = loaded$.pipe(
+    map((loaded) => pending.map(({ name }) => loaded[name]?.ast)),
+    distinctUntilChanged((a, b) => a.every((ast, i) => ast === b[i])),
+    switchMap((asts) => {
+      const nested = pending.flatMap((entry, i) => {
+        const childImports = getDeclaredImports(asts[i]);
+        if (Object.keys(childImports).length === 0) return [];
+        const childPath = [...path, { name: entry.name, key: entry.key }];
+        return [
+          loadImportTree(childImports, childPath, maxDepth, nostr).pipe(
+            map((child) => [entry.name, child] as const)
+          ),
+        ];
+      });
+      return nested.length > 0 ? combineLatest(nested).pipe(map((entries) => Object.fromEntries(entries))) : of({});
+    })
+  );
 
-  // Build the components map
-  return useMemo(() => {
-    const result: Record<string, any> = {};
-    const events = [component0, component1, component2, component3];
-
-    for (let i = 0; i < importEntries.length && i < 4; i++) {
-      const [name, _naddr] = importEntries[i]!;
-      const event = events[i];
-      if (event) {
-        try {
-          result[name] = JSON.parse(event.content);
-        } catch (e) {
-          console.warn(`Failed to parse component ${name}:`, e);
-        }
+  return combineLatest([loaded$, children$]).pipe(
+    map(([loaded, children]) => {
+      const result: ComponentImports = { components: {}, status: { ...errors }, children };
+      for (const [name, { ast, ...status }] of Object.entries(loaded)) {
+        if (ast) result.components[name] = ast;
+        result.status[name] = status;
       }
+      return result;
+    })
+  );
+}
+
+/** Parsed AST of each component event (content is stored as JSON AST) */
+const parsedComponents = new WeakMap<NostrEvent, { ast?: any; error?: string }>();
+
+function parseComponent(event: NostrEvent) {
+  let parsed = parsedComponents.get(event);
+  if (!parsed) {
+    try {
+      parsed = { ast: JSON.parse(event.content) };
+    } catch (e) {
+      console.warn("Failed to parse component:", e);
+      parsed = { error: "Invalid component content" };
     }
+    parsedComponents.set(event, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Load the exact revision a pinned import points at.
+ * Reads from the pin's relay hints plus the author's write relays, into the
+ * pinned store (the shared one only keeps the latest revision).
+ */
+function loadPinned(
+  { name, ref, address, pin }: PendingImport,
+  { eventStore, pinnedEventStore, pinnedEventLoader }: NostrContextValue
+): Observable<LoadedImport> {
+  const { id, relays: hints, author = address?.pubkey } = pin!;
+
+  const toLoaded = (event: NostrEvent): LoadedImport => {
+    if (
+      address &&
+      (event.kind !== address.kind || event.pubkey !== address.pubkey || getReplaceableIdentifier(event) !== address.identifier)
+    ) {
+      return { ref, loading: false, error: `Pinned event is not a revision of ${name}` };
+    }
+    const { ast, error } = parseComponent(event);
+    return error ? { ref, loading: false, error } : { ref, loading: false, ast };
+  };
+
+  const cached = pinnedEventStore.getEvent(id) ?? eventStore.getEvent(id);
+  if (cached) return of(toLoaded(cached));
+
+  const relays$ = author ? getAuthorRelays(eventStore, author) : of([]);
+  return relays$.pipe(
+    switchMap((outboxes) =>
+      pinnedEventLoader({ id, relays: mergeRelaySets(hints, address?.relays, outboxes) }).pipe(
+        take(1),
+        map(toLoaded),
+        defaultIfEmpty<LoadedImport, LoadedImport>({ ref, loading: false, error: "Pinned version not found" }),
+        catchError(() => of<LoadedImport>({ ref, loading: false, error: "Pinned version not found" })),
+        startWith<LoadedImport>({ ref, loading: true }),
+      )
+    ),
+  );
+}
 
-    return result;
-  }, [importEntries, component0, component1, component2, component3]);
+/**
+ * Subscribe to a list of imports at once.
+ * Each import is read from its naddr relay hints plus the author's write
+ * relays; the filters for all imports sharing a relay go into one REQ.
+ */
+function loadComponents(
+  pending: FloatingImport[],
+  { eventStore, pool }: NostrContextValue
+): Observable<Record<string, LoadedImport>> {
+  const relayLists$ = combineLatest(
+    pending.map(({ address }) =>
+      getAuthorRelays(eventStore, address.pubkey).pipe(
+        map((outboxes) => mergeRelaySets(address.relays, outboxes))
+      )
+    )
+  );
+
+  return relayLists$.pipe(
+    switchMap((relayLists) => {
+      // relay -> filters for every import it should serve
+      const byRelay = new Map<string, Filter[]>();
+      pending.forEach(({ address }, i) => {
+        for (const relay of relayLists[i]!) {
+          const filters = byRelay.get(relay) ?? [];
+          filters.push({
+            kinds: [address.kind],
+            authors: [address.pubkey],
+            "#d": [address.identifier],
+            limit: 1,
+          });
+          byRelay.set(relay, filters);
+        }
+      });
+
+      type Message = { relay: string; event?: NostrEvent; done?: boolean };
+      const messages = merge(
+        ...[...byRelay].map(([relay, filters]) =>
+          pool.relay(relay).subscription(filters).pipe(
+            map((response): Message =>
+              response === "EOSE" ? { relay, done: true } : { relay, event: eventStore.add(response, relay) ?? response }
+            ),
+            // A failed relay counts as answered
+            catchError(() => of<Message>({ relay, done: true })),
+          )
+        )
+      );
+
+      // Start from anything already in the store so re-subscribing doesn't flicker
+      const initial = new Map<string, NostrEvent>();
+      for (const { address } of pending) {
+        const cached = eventStore.getReplaceable(address.kind, address.pubkey, address.identifier);
+        if (cached) initial.set(addressKey(address), cached);
+      }
+
+      return messages.pipe(
+        scan(
+          (acc, message) => {
+            if (message.done) acc.answered.add(message.relay);
+            const event = message.event;
+            if (event) {
+              const key = addressKey({ kind: event.kind, pubkey: event.pubkey, identifier: getReplaceableIdentifier(event) });
+              const existing = acc.events.get(key);
+              if (!existing || existing.created_at < event.created_at) acc.events.set(key, event);
+            }
+            return acc;
+          },
+          { events: initial, answered: new Set<string>() }
+        ),
+        startWith({ events: initial, answered: new Set<string>() }),
+        map(({ events, answered }) => {
+          const result: Record<string, LoadedImport> = {};
+
+          pending.forEach(({ name, ref, address }, i) => {
+            const event = events.get(addressKey(address));
+            if (event) {
+              const { ast, error } = parseComponent(event);
+              result[name] = error ? { ref, loading: false, error } : { ref, loading: false, ast };
+              return;
+            }
+
+            const allAnswered = relayLists[i]!.every((relay) => answered.has(relay));
+            result[name] = allAnswered
+              ? { ref, loading: false, error: "Component not found" }
+              : { ref, loading: true };
+          });
+
+          return result;
+        }),
+      );
+    }),
+  );
 }
@@ -1,18 +1,74 @@
-import { useNostr } from "@/components/NostrContext";
+import { useNostr, type NostrContextValue } from "@/components/NostrContext";
 import { useObservableState } from "observable-hooks";
 import { useMemo } from "react";
-import type { Filter as NostrFilter } from "nostr-tools";
-import { of, map, startWith } from "rxjs";
-import { onlyEvents } from "applesauce-relay";
+import type { Filter as NostrFilter, NostrEvent } from "nostr-tools";
+import {
+  of,
+  map,
+  scan,
+  share,
+  filter as rxFilter,
+  merge,
+  endWith,
+  startWith,
+  catchError,
+  combineLatest,
+  distinctUntilChanged,
+  switchMap,
+  shareReplay,
+  type Observable,
+} from "rxjs";
+import { onlyEvents, type SubscriptionResponse } from "applesauce-relay";
 import { mapEventsToStore, mapEventsToTimeline } from "applesauce-core/observable";
+import { getSeenRelays, mergeRelaySets } from "applesauce-core/helpers";
 import { parsePubkey, parseEventId, parseAddress } from "@/lib/nip19";
-import { DEFAULT_RELAYS } from "@/lib/relays";
+import { buildQueryGraph, resolveQueryReferences } from "@/lib/queries";
+import { getAuthorRelays, getAuthorsRelays } from "@/lib/outbox";
 
+// `relays` overrides where a query reads from. Without it, events and
+// addresses are read from their author's write relays (NIP-65), and
+// timelines from the write relays of `filter.authors` or DEFAULT_RELAYS.
 export type NostrQuery =
-  | { type: "profile"; pubkey: string }  // accepts npub, nprofile, or hex
-  | { type: "event"; id: string }        // accepts nevent, note, or hex
-  | { type: "address"; kind: number; pubkey: string; identifier?: string }
-  | { type: "timeline"; filter: NostrFilter; limit?: number };
+  | { type: "profile"; pubkey: string; relays?: string[] }  // accepts npub, nprofile, or hex
+  | { type: "event"; id: string; relays?: string[] }        // accepts nevent, note, or hex
+  | { type: "address"; kind: number; pubkey: string; identifier?: string; relays?: string[] }
+  | { type: "timeline"; filter: NostrFilter; limit?: number; relays?: string[] };
+
+/** A message from one relay of a timeline subscription */
+type RelayResponse =
+  | { relay: string; response: SubscriptionResponse }
+  | { relay: string; error: string };
+
+/**
+ * Lifecycle of a query, exposed to pages as `queries.$status.<name>`
+ * so they can tell "still loading" from "no results"
+ */
+export interface QueryStatus {
+  /** Waiting for the first result (timelines: until EOSE), or for a dependent query's inputs */
+  loading: boolean;
+  /** Relays have sent everything they have stored (EOSE), or the loader finished */
+  eose: boolean;
+  /** Why the query failed, if it did */
+  error?: string;
+  /** Relays that have answered so far */
+  relaysResponded: string[];
+}
+
+export interface QueryState<T = any> {
+  value: T | undefined;
+  status: QueryStatus;
+}
+
+const LOADING: QueryStatus = { loading: true, eose: false, relaysResponded: [] };
+const IDLE: QueryStatus = { loading: false, eose: false, relaysResponded: [] };
+
+function failed(error: string): QueryState {
+  return { value: undefined, status: { ...IDLE, error } };
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
 
 /**
  * ONE HOOK TO RULE THEM ALL
@@ -33,29 +89,187 @@ export type NostrQuery =
  * const events = useNostrQuery(query);
  */
 export function useNostrQuery(query: NostrQuery | undefined) {
-  const { eventStore, pool, addressLoader, eventLoader } = useNostr();
+  return useNostrQueryState(query).value;
+}
+
+/**
+ * Same as useNostrQuery, but also returns the query status
+ *
+ * @example
+ * const { value: profile, status } = useNostrQueryState({ type: "profile", pubkey });
+ * if (status.loading) return <Loading />;
+ * if (!profile) return <NotFound />;
+ */
+export function useNostrQueryState(query: NostrQuery | undefined): QueryState {
+  const nostr = useNostr();
 
   // Create observable based on query type
+  const observable = useMemo(
+    () => (query ? createQueryObservable(query, nostr) : of({ value: undefined, status: IDLE })),
+    [query, nostr.eventStore, nostr.pool, nostr.addressLoader, nostr.eventLoader]
+  );
+
+  // Convert RxJS observable to React state using observable-hooks
+  // This will re-render the component when the observable emits new values
+  return useObservableState(observable, { value: undefined, status: query ? LOADING : IDLE });
+}
+
+/**
+ * Run any number of named queries at once
+ * Returns a map of query name -> { value, status }
+ *
+ * Queries may reference other queries' results (see `lib/queries.ts`).
+ * A dependent query subscribes once its inputs resolve and re-subscribes
+ * whenever they change. Queries in a dependency cycle never run and
+ * report the cycle as their error.
+ *
+ * @example
+ * const results = useNostrQueries({
+ *   thread: { type: "event", id: "nevent1..." },
+ *   replies: { type: "timeline", filter: { kinds: [1], "#e": ["queries.thread.id"] } },
+ * });
+ * results.replies?.value // undefined until thread loads, then the replies timeline
+ */
+export function useNostrQueries(queries: Record<string, NostrQuery>) {
+  const nostr = useNostr();
+
+  // Frontmatter is re-parsed on every edit, so key on content rather than identity
+  const queriesKey = JSON.stringify(queries);
+
   const observable = useMemo(() => {
-    if (!query) return undefined;
-
-    switch (query.type) {
-      case "profile": {
-        // Parse pubkey from npub, nprofile, or hex
-        let pubkey: string;
-        try {
-          const parsed = parsePubkey(query.pubkey);
-          pubkey = parsed.pubkey;
-        } catch (e) {
-          console.warn("⚠️ useNostrQuery - Invalid pubkey:", e);
-          return undefined;
+    const graph = buildQueryGraph(queries);
+    if (Object.keys(queries).length === 0) return of({} as Record<string, QueryState>);
+
+    // Build in dependency order so each query can combine its inputs' results
+    const results: Record<string, Observable<QueryState>> = {};
+    for (const name of graph.order) {
+      const query = queries[name]!;
+      const dependencies = graph.dependencies[name]!;
+
+      const result$ = dependencies.length === 0
+        ? createQueryObservable(query, nostr)
+        : combineLatest(
+            Object.fromEntries(dependencies.map((dep) => [dep, results[dep]!]))
+          ).pipe(
+            map((inputs) => {
+              const values = Object.fromEntries(
+                Object.entries(inputs).map(([dep, state]) => [dep, state.value])
+              );
+              return {
+                resolved: resolveQueryReferences(query, values),
+                waiting: Object.values(inputs).some((state) => state.status.loading),
+              };
+            }),
+            distinctUntilChanged((a, b) => JSON.stringify(a) === JSON.stringify(b)),
+            switchMap(({ resolved, waiting }) =>
+              resolved
+                ? createQueryObservable(resolved, nostr)
+                : of<QueryState>({ value: undefined, status: waiting ? LOADING : IDLE })
+            ),
+          );
+
+      // Shared so dependents don't open a second subscription
+      results[name] = result$.pipe(shareReplay({ bufferSize: 1, refCount: true }));
+    }
+
+    // Broken queries still get a key so `queries.<name>` is defined-but-empty,
+    // and say what's wrong in `queries.$status.<name>.error`
+    for (const [name, error] of Object.entries(graph.errors)) {
+      results[name] = of(failed(error));
+    }
+
+    return combineLatest(results);
+  }, [queriesKey, nostr.eventStore, nostr.pool, nostr.addressLoader, nostr.eventLoader]);
+
+  return useObservableState(observable, {} as Record<string, QueryState>);
+}
+
+/**
+ * Convert a frontmatter query declaration into a NostrQuery
+ * `relays` (on the declaration, or page-wide) overrides where it reads from
+ *
+ * @example
+ * toNostrQuery({ profile: "npub1..." })           // { type: "profile", pubkey: "npub1..." }
+ * toNostrQuery({ filter: { kinds: [1] } })        // { type: "timeline", filter: { kinds: [1] } }
+ * toNostrQuery({ address: { kind: 30023, ... } }) // { type: "address", kind: 30023, ... }
+ * toNostrQuery({ event: "note1...", relays: ["wss://relay.example"] })
+ */
+export function toNostrQuery(definition: any, pageRelays?: string | string[]): NostrQuery | undefined {
+  if (!definition || typeof definition !== "object") return undefined;
+
+  let query: NostrQuery;
+  if (definition.profile) query = { type: "profile", pubkey: definition.profile };
+  else if (definition.event) query = { type: "event", id: definition.event };
+  else if (definition.address) query = { type: "address", ...definition.address };
+  else if (definition.filter) query = { type: "timeline", filter: definition.filter };
+  else return undefined;
+
+  const relays = definition.relays ?? pageRelays;
+  if (!relays) return query;
+  return { ...query, relays: Array.isArray(relays) ? relays : [relays] };
+}
+
+/**
+ * Track the status of a loader (addressLoader/eventLoader) request.
+ * Loaders emit what they find and complete once every relay has answered.
+ */
+function withLoaderStatus(source: Observable<any>): Observable<QueryState> {
+  type LoaderSignal =
+    | { type: "value"; value: any }
+    | { type: "complete" }
+    | { type: "error"; error: string };
+
+  return source.pipe(
+    map((value): LoaderSignal => ({ type: "value", value })),
+    endWith<LoaderSignal>({ type: "complete" }),
+    catchError((error) => of<LoaderSignal>({ type: "error", error: errorMessage(error) })),
+    scan<LoaderSignal, QueryState>((state, signal) => {
+      switch (signal.type) {
+        case "value": {
+          const seen = signal.value ? getSeenRelays(signal.value as NostrEvent) : undefined;
+          return {
+            value: signal.value,
+            status: { ...state.status, loading: false, relaysResponded: seen ? [...seen] : state.status.relaysResponded },
+          };
         }
+        case "complete":
+          return { ...state, status: { ...state.status, loading: false, eose: true } };
+        case "error":
+          return { ...state, status: { ...state.status, loading: false, error: signal.error } };
+      }
+    }, { value: undefined, status: LOADING }),
+    startWith<QueryState>({ value: undefined, status: LOADING }),
+  );
+}
+
+/**
+ * Build the observable for a single query
+ * Invalid queries emit a state with `status.error` set
+ */
+function createQueryObservable(
+  query: NostrQuery,
+  { eventStore, pool, addressLoader, eventLoader }: NostrContextValue
+): Observable<QueryState> {
+  switch (query.type) {
+    case "profile": {
+      // Parse pubkey from npub, nprofile, or hex
+      let pubkey: string;
+      let parsedPubkey;
+      try {
+        parsedPubkey = parsePubkey(query.pubkey);
+        pubkey = parsedPubkey.pubkey;
+      } catch (e) {
+        console.warn("⚠️ useNostrQuery - Invalid pubkey:", e);
+        return of(failed(errorMessage(e)));
+      }
 
-        // Use addressLoader for kind:0 (profiles)
-        // Parse the JSON content and merge it into the event object
-        return addressLoader({
+      // Use addressLoader for kind:0 (profiles), it also checks the lookup relays
+      // Parse the JSON content and merge it into the event object
+      return withLoaderStatus(
+        addressLoader({
           kind: 0,
           pubkey,
+          relays: query.relays ?? parsedPubkey.relays,
         }).pipe(
           map((event) => {
             if (!event) return event;
@@ -69,71 +283,147 @@ export function useNostrQuery(query: NostrQuery | undefined) {
               return event;
             }
           })
-        );
-      }
+        )
+      );
+    }
 
-      case "event": {
-        // Parse event id from nevent, note, or hex
-        let parsed;
-        try {
-          parsed = parseEventId(query.id);
-        } catch (e) {
-          console.warn("⚠️ useNostrQuery - Invalid event ID:", e);
-          return undefined;
-        }
+    case "event": {
+      // Parse event id from nevent, note, or hex
+      let parsed;
+      try {
+        parsed = parseEventId(query.id);
+      } catch (e) {
+        console.warn("⚠️ useNostrQuery - Invalid event ID:", e);
+        return of(failed(errorMessage(e)));
+      }
 
-        // Use eventLoader to fetch event by ID (with relay hints if nevent)
-        return eventLoader({
-          id: parsed.id,
-          relays: parsed.relays,
-        });
+      // Use eventLoader to fetch event by ID (with relay hints if nevent)
+      if (query.relays || !parsed.author) {
+        return withLoaderStatus(
+          eventLoader({
+            id: parsed.id,
+            relays: query.relays ?? parsed.relays,
+          })
+        );
       }
 
-      case "address": {
-        // Validate address components
-        if (!query.kind || !query.pubkey || query.pubkey.length !== 64) {
-          console.warn("⚠️ useNostrQuery - Invalid address query:", query);
-          return undefined;
-        }
+      // nevent with an author - also check the author's write relays
+      const { id, relays: hints, author } = parsed;
+      return getAuthorRelays(eventStore, author).pipe(
+        switchMap((outboxes) =>
+          withLoaderStatus(eventLoader({ id, relays: mergeRelaySets(hints, outboxes) }))
+        ),
+      );
+    }
 
-        // Use addressLoader for parameterized replaceable events
-        return addressLoader({
-          kind: query.kind,
-          pubkey: query.pubkey,
-          identifier: query.identifier,
-        });
+    case "address": {
+      // Validate address components
+      if (!query.kind || !query.pubkey || query.pubkey.length !== 64) {
+        console.warn("⚠️ useNostrQuery - Invalid address query:", query);
+        return of(failed("Invalid address: expected kind and 64-char hex pubkey"));
       }
 
-      case "timeline": {
-        // Validate filter
-        if (!query.filter) {
-          console.warn("⚠️ useNostrQuery - No filter provided for timeline query");
-          return undefined;
-        }
+      // Use addressLoader for parameterized replaceable events,
+      // read from the author's write relays unless overridden
+      const { kind, pubkey, identifier } = query;
+      const relays$ = query.relays ? of(query.relays) : getAuthorRelays(eventStore, pubkey);
+      return relays$.pipe(
+        switchMap((relays) =>
+          withLoaderStatus(addressLoader({ kind, pubkey, identifier, relays }))
+        ),
+      );
+    }
 
-        // Subscribe to relays and pipe events through store to timeline
-        // This creates a live subscription that updates as new events arrive
-        return pool.relay(DEFAULT_RELAYS[0]!).subscription([query.filter])
-          .pipe(
-            onlyEvents(),
-            mapEventsToStore(eventStore),
-            mapEventsToTimeline(),
-            map((t) => [...t]),
-            startWith([]),
-          );
+    case "timeline": {
+      // Validate filter
+      if (!query.filter) {
+        console.warn("⚠️ useNostrQuery - No filter provided for timeline query");
+        return of(failed("No filter provided for timeline query"));
       }
 
-      default:
-        console.warn("⚠️ useNostrQuery - Unknown query type:", (query as any).type);
-        return undefined;
+      const filter = query.filter;
+      const relays$ = query.relays?.length
+        ? of(query.relays)
+        : getAuthorsRelays(eventStore, filter.authors ?? []);
+
+      return relays$.pipe(
+        switchMap((relays) => createTimelineObservable(filter, relays, { eventStore, pool })),
+      );
     }
-  }, [query, eventStore, pool, addressLoader, eventLoader]);
 
-  // Convert RxJS observable to React state using observable-hooks
-  // This will re-render the component when the observable emits new values
-  // IMPORTANT: useObservableState requires a non-undefined observable
-  // If observable is undefined, provide a default empty observable
-  const result = useObservableState(observable ?? of(undefined));
+    default:
+      console.warn("⚠️ useNostrQuery - Unknown query type:", (query as any).type);
+      return of(failed(`Unknown query type: ${(query as any).type}`));
+  }
+}
+
+/**
+ * Live timeline for a filter across a set of relays
+ * One subscription per relay (rather than pool.subscription) so we know
+ * which relays have sent EOSE or failed.
+ */
+function createTimelineObservable(
+  filter: NostrFilter,
+  relays: string[],
+  { eventStore, pool }: Pick<NostrContextValue, "eventStore" | "pool">
+): Observable<QueryState> {
+  // Relays are counted once each, even if listed twice
+  const relayCount = new Set(relays).size;
+
+  // Subscribe to every relay and pipe events through store to timeline
+  // This creates a live subscription that updates as new events arrive
+  const responses = merge(
+    ...relays.map((relay) =>
+      pool.relay(relay).subscription([filter]).pipe(
+        map((response): RelayResponse => ({ relay, response })),
+        catchError((error) => of<RelayResponse>({ relay, error: errorMessage(error) })),
+      )
+    )
+  ).pipe(share());
+
+  // The store dedupes by id and records every relay that sent the event
+  // (see the `relays` filter)
+  const timeline = responses.pipe(
+    rxFilter((r) => "response" in r),
+    map((r) => (r as { response: SubscriptionResponse }).response),
+    onlyEvents(),
+    mapEventsToStore(eventStore, true),
+    mapEventsToTimeline(),
+    map((t) => [...t]),
+    startWith([]),
+  );
+
+  const status = responses.pipe(
+    scan(
+      (acc, r) => {
+        // A relay that already sent EOSE delivered everything, a later error doesn't undo that
+        if ("error" in r) {
+          if (!acc.responded.has(r.relay)) acc.errors[r.relay] = r.error;
+        } else if (r.response === "EOSE") {
+          acc.responded.add(r.relay);
+          delete acc.errors[r.relay];
+        }
+        return acc;
+      },
+      { responded: new Set<string>(), errors: {} as Record<string, string> }
+    ),
+    map(({ responded, errors }): QueryStatus => {
+      const failures = Object.entries(errors);
+      const done = new Set([...responded, ...Object.keys(errors)]).size;
+      return {
+        // Show results as soon as one relay has sent everything it has
+        loading: responded.size === 0 && done < relayCount,
+        eose: done >= relayCount,
+        error: relayCount > 0 && failures.length >= relayCount
+          ? `All relays failed: ${failures.map(([relay, error]) => `${relay} (${error})`).join(", ")}`
+          : undefined,
+        relaysResponded: [...responded],
+      };
+    }),
+    startWith(LOADING),
+  );
 
-  return result;
+  return combineLatest([timeline, status]).pipe(
+    map(([value, status]) => ({ value, status })),
+  );
 }
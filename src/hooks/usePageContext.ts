@@ -1,9 +1,14 @@
 import { useState, useCallback, useEffect, useMemo, createContext, useContext } from "react";
+import { useLocation } from "wouter";
 import { useNostr } from "@/components/NostrContext";
-import { useNostrQuery, type NostrQuery } from "@/hooks/useNostrQuery";
+import { useNostrQueries, toNostrQuery, type NostrQuery, type QueryStatus } from "@/hooks/useNostrQuery";
 import { useComponents } from "@/hooks/useComponent";
-import { evaluate, type EvaluationScope } from "@/lib/evaluator";
-import { DEFAULT_RELAYS } from "@/lib/relays";
+import { evaluate, type EvaluationScope, type FormValue } from "@/lib/evaluator";
+import { useOutboxRelays } from "@/hooks/nostr";
+import { getValidationRules, validateForm } from "@/lib/validation";
+import { actionFormFields, actionPublishes, legacyState, resolveInitialState, runAction, type ActionState } from "@/lib/actions";
+import { describePublish, publishEvent, type PublishResult } from "@/lib/publish";
+import { showPublishToast, showToast } from "@/components/Toasts";
 
 // Context for builtins to access scope
 const ScopeContext = createContext<EvaluationScope | null>(null);
@@ -20,43 +25,60 @@ export const useScope = () => {
  */
 export function usePageContext(frontmatter: Record<string, any> | null): EvaluationScope {
   const nostr = useNostr();
-  const [form, setForm] = useState<Record<string, string>>({});
+  const outboxRelays = useOutboxRelays(nostr.pubkey);
+  const [, navigate] = useLocation();
+  const [form, setForm] = useState<Record<string, FormValue>>({});
+  // Values set by state actions, on top of the initial `state:` values
+  const [stateOverrides, setStateOverrides] = useState<Record<string, any>>({});
   const [isPublishing, setIsPublishing] = useState(false);
+  // Outcome of each action's last run, exposed under actions.<name>
+  const [runs, setRuns] = useState<Record<string, Pick<ActionState, "status" | "error" | "relays">>>({});
 
-  // Build query from frontmatter
-  const query = useMemo<NostrQuery | undefined>(() => {
-    if (!frontmatter) return undefined;
-    if (frontmatter.profile) return { type: "profile", pubkey: frontmatter.profile };
-    if (frontmatter.event) return { type: "event", id: frontmatter.event };
-    if (frontmatter.address) return { type: "address", ...frontmatter.address };
-    if (frontmatter.filter) return { type: "timeline", filter: frontmatter.filter };
-    return undefined;
-  }, [frontmatter]);
+  // Build named queries from frontmatter
+  const queryDefs = useMemo(() => buildQueries(frontmatter), [frontmatter]);
 
   // Fetch data and components
-  const queryResult = useNostrQuery(query);
-  const components = useComponents(frontmatter?.imports);
+  const queryResults = useNostrQueries(queryDefs);
+  const maxImportDepth = typeof frontmatter?.maxImportDepth === "number" ? frontmatter.maxImportDepth : undefined;
+  const imports = useComponents(frontmatter?.imports, maxImportDepth);
 
-  // Build queries object
-  const queries = useMemo(() => ({
-    profile: query?.type === "profile" ? queryResult : undefined,
-    event: query?.type === "event" ? (Array.isArray(queryResult) ? queryResult[0] : queryResult) : undefined,
-    events: query?.type === "timeline" ? queryResult : undefined,
-    address: query?.type === "address" ? queryResult : undefined,
-  }), [query, queryResult]);
+  // Build queries object (event queries resolve to a single event)
+  // Status for each query lives under queries.$status.<name>
+  const queries = useMemo(() => {
+    const result: Record<string, any> = {};
+    const status: Record<string, QueryStatus> = {};
+    for (const [name, query] of Object.entries(queryDefs)) {
+      const state = queryResults[name];
+      const value = state?.value;
+      result[name] = query.type === "event" && Array.isArray(value) ? value[0] : value;
+      if (state) status[name] = state.status;
+    }
+    result.$status = status;
+    return result;
+  }, [queryDefs, queryResults]);
+
+  // Page state: the `state:` block (which may reference queries) plus whatever actions have set.
+  // Top-level frontmatter keys are still readable underneath, see legacyState
+  const initialState = useMemo(() => {
+    const evalScope = { queries, form: {}, user: nostr.pubkey, updateForm: () => {}, executeAction: async () => {}, isPublishing: false } as EvaluationScope;
+    return { ...legacyState(frontmatter), ...resolveInitialState(frontmatter?.state, evalScope) };
+  }, [frontmatter, queries, nostr.pubkey]);
+  const state = useMemo(() => ({ ...initialState, ...stateOverrides }), [initialState, stateOverrides]);
 
   // Update a form field
-  const updateForm = useCallback((name: string, value: string) => {
+  const updateForm = useCallback((name: string, value: FormValue) => {
     setForm(prev => ({ ...prev, [name]: value }));
   }, []);
 
   // Initialize form from frontmatter defaults
   useEffect(() => {
     if (!frontmatter?.form) return;
-    const defaults: Record<string, string> = {};
+    const defaults: Record<string, FormValue> = {};
     for (const [key, value] of Object.entries(frontmatter.form)) {
       if (typeof value === "string" && !value.startsWith("queries.") && !value.startsWith("state.")) {
         defaults[key] = value;
+      } else if (typeof value === "number" || typeof value === "boolean") {
+        defaults[key] = value;
       }
     }
     setForm(prev => {
@@ -71,18 +93,19 @@ export function usePageContext(frontmatter: Record<string, any> | null): Evaluat
   // Resolve form defaults that reference queries
   useEffect(() => {
     if (!frontmatter?.form) return;
-    const hasQueries = queries && Object.values(queries).some(v => v !== undefined);
+    const hasQueries = Object.keys(queryDefs).some(name => queries[name] !== undefined);
     if (!hasQueries) return;
 
     // Build a minimal scope for evaluation
-    const evalScope = { queries, state: frontmatter, form, updateForm, executeAction: async () => {}, isPublishing: false } as EvaluationScope;
+    const evalScope = { queries, state, form, updateForm, executeAction: async () => {}, isPublishing: false } as EvaluationScope;
 
-    const resolved: Record<string, string> = {};
+    const resolved: Record<string, FormValue> = {};
     for (const [key, value] of Object.entries(frontmatter.form)) {
       if (typeof value === "string" && (value.startsWith("queries.") || value.startsWith("state."))) {
         const result = evaluate(value, evalScope);
         if (result !== undefined && result !== null) {
-          resolved[key] = String(result);
+          // Numbers and booleans stay typed for NumberInput, Slider, Checkbox and Toggle
+          resolved[key] = typeof result === "object" ? JSON.stringify(result) : result;
         }
       }
     }
@@ -90,123 +113,172 @@ export function usePageContext(frontmatter: Record<string, any> | null): Evaluat
       setForm(prev => {
         const updated = { ...prev };
         for (const [k, v] of Object.entries(resolved)) {
-          if (!updated[k]) updated[k] = v;
+          // Only fill empty fields: an unchecked box or a 0 is an answer
+          if (updated[k] === undefined || updated[k] === null || updated[k] === "") updated[k] = v;
         }
         return updated;
       });
     }
-  }, [queries, frontmatter?.form]);
+  }, [queries, state, frontmatter?.form]);
+
+  // Validate the form on every change, errors are exposed as form.$errors
+  const rules = useMemo(() => getValidationRules(frontmatter), [frontmatter]);
+  const errors = useMemo(() => {
+    const evalScope = { queries, state, form, user: nostr.pubkey, updateForm, executeAction: async () => {}, isPublishing: false } as EvaluationScope;
+    return validateForm(rules, form, evalScope);
+  }, [rules, queries, state, form, nostr.pubkey]);
 
   // Execute an action (uses current form/queries directly, not scope)
   const executeAction = useCallback(async (actionName: string) => {
-    const actionDef = frontmatter?.actions?.[actionName];
-    if (!actionDef) {
+    const declared: Record<string, unknown> = frontmatter?.actions ?? {};
+    if (!declared[actionName]) {
       console.warn(`Unknown action: ${actionName}`);
       return;
     }
 
-    if (nostr.isReadonly) {
-      alert("Login with extension to publish");
-      return;
-    }
-
-    setIsPublishing(true);
-    try {
-      // Build scope for resolving values
-      const evalScope = { queries, state: frontmatter, form, user: nostr.pubkey, updateForm, executeAction: async () => {}, isPublishing: true } as EvaluationScope;
-
-      const kind = typeof actionDef.kind === "number" ? actionDef.kind : parseInt(actionDef.kind, 10);
-      let content = resolveValue(actionDef.content, evalScope);
-
-      // Handle base merging
-      if (actionDef.base) {
-        const baseResult = evaluate(actionDef.base, evalScope);
-        let baseObj: Record<string, any> = {};
-        if (typeof baseResult === "string") {
-          try { baseObj = JSON.parse(baseResult); } catch {}
-        } else if (typeof baseResult === "object" && baseResult) {
-          baseObj = baseResult;
-        }
-
-        let contentObj: Record<string, any> = {};
-        if (typeof content === "string" && content.trim().startsWith("{")) {
-          try { contentObj = JSON.parse(content); } catch {}
-        } else if (typeof content === "object" && content) {
-          contentObj = content;
-        }
-
-        const merged = { ...baseObj, ...contentObj };
-        for (const k of Object.keys(merged)) {
-          if (merged[k] === "") delete merged[k];
-        }
-        content = JSON.stringify(merged);
-      } else if (typeof content === "object") {
-        content = JSON.stringify(content);
+    // State-only actions change the page locally, nothing to sign
+    const publishes = actionPublishes(actionName, declared);
+    if (publishes) {
+      if (nostr.isReadonly) {
+        showToast({ kind: "error", message: "Login with extension to publish" });
+        return;
       }
-
-      // Resolve tags
-      const tags: string[][] = [];
-      if (actionDef.tags) {
-        for (const tag of actionDef.tags) {
-          tags.push(tag.map((v: any) => String(resolveValue(v, evalScope))));
-        }
+      // Only the fields the action reads can block it
+      const fields = actionFormFields(actionName, declared);
+      const blocking = Object.entries(errors).filter(([field]) => fields.includes(field));
+      if (blocking.length > 0) {
+        console.warn(`Action "${actionName}" blocked by invalid fields:`, Object.fromEntries(blocking));
+        return;
       }
+      setIsPublishing(true);
+    }
 
-      const eventTemplate = {
-        kind,
-        content: String(content),
-        tags,
-        created_at: Math.floor(Date.now() / 1000),
-      };
-
-      const signed = await nostr.signer.signEvent(eventTemplate);
-      const published = await nostr.pool.publish(DEFAULT_RELAYS, signed);
+    setRuns(prev => ({ ...prev, [actionName]: { status: "running", relays: [] } }));
+    const published: PublishResult[] = [];
+    let failure: string | undefined;
 
-      if (published.length === 0) {
-        throw new Error("Failed to publish to any relay");
-      }
+    try {
+      await runAction(actionName, {
+        actions: declared,
+        initialState,
+        stateOverrides,
+        form,
+        scope: { queries, form, user: nostr.pubkey, updateForm, executeAction: async () => {}, isPublishing: publishes } as EvaluationScope,
+        publish: async (eventTemplate) => {
+          const signed = await nostr.signer.signEvent(eventTemplate);
+          // Page relays override the user's own write relays
+          const relays = toRelayList(frontmatter?.relays) ?? outboxRelays;
+          const result = await publishEvent(nostr.pool, relays, signed);
+          published.push(result);
 
-      if (actionDef.clear) {
-        setForm({});
-      }
+          if (result.accepted === 0) {
+            throw new Error(describePublish(result));
+          }
+          // Live queries pick the new event up without waiting for a relay to echo it
+          nostr.eventStore.add(signed);
+          return signed;
+        },
+        onStateChange: setStateOverrides,
+        onFormChange: setForm,
+        navigate: (to) => {
+          if (/^https?:\/\//.test(to)) window.location.assign(to);
+          else navigate(to);
+        },
+      });
     } catch (error) {
       console.error("Action failed:", error);
-      alert(error instanceof Error ? error.message : "Action failed");
+      failure = error instanceof Error ? error.message : "Action failed";
     } finally {
-      setIsPublishing(false);
+      if (publishes) setIsPublishing(false);
     }
-  }, [frontmatter, queries, form, nostr]);
+
+    // One toast per published event; a publish nobody accepted is already an error toast
+    for (const result of published) showPublishToast(describePublish(result), result);
+    const publishFailed = published.some((result) => result.accepted === 0);
+    if (failure && !publishFailed) showToast({ kind: "error", message: failure });
+
+    const partial = published.some((result) => result.accepted < result.relays.length);
+    setRuns(prev => ({
+      ...prev,
+      [actionName]: {
+        status: failure ? "error" : partial ? "partial" : "success",
+        error: failure,
+        relays: published.flatMap((result) => result.relays),
+      },
+    }));
+  }, [frontmatter, queries, initialState, stateOverrides, form, errors, nostr, outboxRelays, navigate]);
+
+  // What each action does, for builtins (state actions aren't blocked by validation),
+  // and how its last run went
+  const actions = useMemo(() => {
+    const result: Record<string, ActionState> = {};
+    for (const name of Object.keys(frontmatter?.actions ?? {})) {
+      result[name] = {
+        publishes: actionPublishes(name, frontmatter?.actions),
+        fields: actionFormFields(name, frontmatter?.actions),
+        ...(runs[name] ?? { status: "idle", relays: [] }),
+      };
+    }
+    return result;
+  }, [frontmatter?.actions, runs]);
 
   // Return unified scope with everything
   return useMemo<EvaluationScope>(() => ({
     props: {},
     queries,
-    state: frontmatter ?? {},
-    form,
+    state,
+    form: Object.assign({ ...form }, { $errors: errors }),
+    actions,
     user: nostr.pubkey ?? undefined,
     item: undefined,
     index: 0,
-    components,
+    components: imports.components,
+    imports,
     updateForm,
     executeAction,
     isPublishing,
-  }), [queries, frontmatter, form, nostr.pubkey, components, updateForm, executeAction, isPublishing]);
+  }), [queries, state, form, errors, actions, nostr.pubkey, imports, updateForm, executeAction, isPublishing]);
 }
 
-/** Resolve action values - handles form.x, state.x, queries.x, objects, special values */
-function resolveValue(value: any, scope: EvaluationScope): any {
-  if (typeof value === "object" && value !== null) {
-    const resolved: Record<string, any> = {};
-    for (const [k, v] of Object.entries(value)) {
-      resolved[k] = resolveValue(v, scope);
-    }
-    return resolved;
+/**
+ * Collect every query declared in frontmatter, keyed by the name it is exposed
+ * as under `queries.<name>`.
+ *
+ * @example
+ * // queries:
+ * //   author: { profile: "npub1..." }
+ * //   notes: { filter: { kinds: [1], authors: ["..."] } }
+ * // -> { author: { type: "profile", ... }, notes: { type: "timeline", ... } }
+ *
+ * The legacy single-query keys still work: `profile`, `event` and `address`
+ * are exposed under the same name, `filter` as `queries.events`.
+ */
+function buildQueries(frontmatter: Record<string, any> | null): Record<string, NostrQuery> {
+  const result: Record<string, NostrQuery> = {};
+  if (!frontmatter) return result;
+
+  const legacy = toNostrQuery(frontmatter, frontmatter.relays);
+  if (legacy) {
+    result[legacy.type === "timeline" ? "events" : legacy.type] = legacy;
   }
-  if (typeof value !== "string") return value;
-  if (value === "now") return Math.floor(Date.now() / 1000);
-  if (value === "user" || value === "user.pubkey") return scope.user;
-  if (value.startsWith("form.") || value.startsWith("state.") || value.startsWith("queries.")) {
-    return evaluate(value, scope);
+
+  if (frontmatter.queries && typeof frontmatter.queries === "object") {
+    for (const [name, definition] of Object.entries(frontmatter.queries)) {
+      const query = toNostrQuery(definition, frontmatter.relays);
+      if (query) {
+        result[name] = query;
+      } else {
+        console.warn(`Invalid query "${name}": expected profile, event, address or filter`);
+      }
+    }
   }
-  return value;
+
+  return result;
+}
+
+/** Frontmatter `relays:` as a list (accepts a single relay string) */
+function toRelayList(relays: unknown): string[] | undefined {
+  if (typeof relays === "string") return [relays];
+  if (Array.isArray(relays) && relays.length > 0) return relays.map(String);
+  return undefined;
 }
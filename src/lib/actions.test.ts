@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import type { EventTemplate } from "nostr-tools";
+import {
+  applyStateAction,
+  buildEventTemplate,
+  dryRunAction,
+  runAction,
+  type ActionContext,
+} from "@/lib/actions";
+import type { EvaluationScope } from "@/lib/evaluator";
+
+function scope(values: Partial<EvaluationScope> = {}): EvaluationScope {
+  return { form: {}, updateForm: () => {}, executeAction: async () => {}, isPublishing: false, ...values };
+}
+
+describe("applyStateAction", () => {
+  const initial = { tab: "notes", expanded: false, count: 0, picked: [] as string[] };
+
+  test("set, toggle, increment and append on top of the overrides", () => {
+    expect(applyStateAction({ set: { tab: "replies" } }, initial, {}, scope())).toEqual({ tab: "replies" });
+    expect(applyStateAction({ toggle: "expanded" }, initial, { expanded: true }, scope())).toEqual({ expanded: false });
+    expect(applyStateAction({ increment: "count" }, initial, { count: 2 }, scope())).toEqual({ count: 3 });
+    expect(applyStateAction({ increment: { count: -5 } }, initial, {}, scope())).toEqual({ count: -5 });
+    expect(applyStateAction({ append: { picked: "form.choice" } }, initial, { picked: ["a"] }, scope({ form: { choice: "b" } })))
+      .toEqual({ picked: ["a", "b"] });
+  });
+
+  test("reset drops overrides so values fall back to their initial ones", () => {
+    const overrides = { tab: "replies", count: 3 };
+    expect(applyStateAction({ reset: true }, initial, overrides, scope())).toEqual({});
+    expect(applyStateAction({ reset: "count" }, initial, overrides, scope())).toEqual({ tab: "replies" });
+  });
+
+  test("combined operations apply in order and read the state from before the action", () => {
+    const next = applyStateAction(
+      { reset: true, set: { before: "state.count" }, increment: "count" },
+      initial,
+      { count: 4 },
+      scope()
+    );
+    expect(next).toEqual({ before: 4, count: 1 });
+  });
+
+  test("records references that resolve to nothing", () => {
+    const unresolved = new Set<string>();
+    applyStateAction({ set: { name: "queries.profile.name" } }, initial, {}, scope({ queries: {} }), unresolved);
+    expect([...unresolved]).toEqual(["queries.profile.name"]);
+  });
+});
+
+describe("buildEventTemplate", () => {
+  test("resolves content and tags, serializing numbers and booleans", () => {
+    const event = buildEventTemplate(
+      { kind: "1", content: "form.note", tags: [["t", "hypernote"], ["amount", "form.amount"], ["nsfw", "form.nsfw"]] },
+      scope({ form: { note: "Hello", amount: 21, nsfw: false } })
+    );
+    expect(event).toMatchObject({
+      kind: 1,
+      content: "Hello",
+      tags: [["t", "hypernote"], ["amount", "21"], ["nsfw", "false"]],
+    });
+    expect(typeof event.created_at).toBe("number");
+  });
+
+  test("merges content into a base object, dropping emptied fields", () => {
+    const event = buildEventTemplate(
+      { kind: 0, base: "queries.profile", content: { name: "form.name", about: "form.about" } },
+      scope({ queries: { profile: { name: "old", about: "hi", picture: "p.png" } }, form: { name: "new", about: "" } })
+    );
+    expect(JSON.parse(event.content)).toEqual({ name: "new", picture: "p.png" });
+  });
+
+  test("reports unresolved references and serializes them as empty strings", () => {
+    const unresolved = new Set<string>();
+    const event = buildEventTemplate({ kind: 1, content: "form.missing", tags: [["e", "queries.thread.id"]] }, scope(), unresolved);
+    expect(event.content).toBe("");
+    expect(event.tags).toEqual([["e", ""]]);
+    expect([...unresolved]).toEqual(["form.missing", "queries.thread.id"]);
+  });
+});
+
+describe("runAction", () => {
+  /** Context whose publish records templates and signs nothing */
+  function context(actions: Record<string, unknown>, overrides: Partial<ActionContext> = {}) {
+    const published: EventTemplate[] = [];
+    const navigated: string[] = [];
+    const ctx: ActionContext = {
+      actions,
+      initialState: { posted: false },
+      stateOverrides: {},
+      form: { content: "Hello", topic: "nostr" },
+      scope: scope({ user: "pubkey" }),
+      publish: async (template) => {
+        published.push(template);
+        return { ...template, id: `id${published.length}`, pubkey: "pubkey", sig: "" };
+      },
+      navigate: (to) => navigated.push(to),
+      ...overrides,
+    };
+    return { ctx, published, navigated };
+  }
+
+  test("runs steps in order with earlier results under steps.<name>", async () => {
+    const { ctx, published, navigated } = context({
+      post: {
+        steps: [
+          { publish: { kind: 1, content: "form.content" } },
+          { publish: { kind: 1985, tags: [["e", "steps.publish.id"]] }, as: "label" },
+          { set: { posted: true } },
+          { clear: ["content"] },
+          { navigate: "/feed" },
+        ],
+      },
+    });
+
+    const steps = await runAction("post", ctx);
+    expect(published.map((event) => [event.kind, event.content, event.tags])).toEqual([
+      [1, "Hello", []],
+      [1985, "", [["e", "id1"]]],
+    ]);
+    expect(Object.keys(steps)).toEqual(["publish", "label", "set", "clear", "navigate"]);
+    expect(steps.set).toEqual({ posted: true });
+    expect(ctx.form).toEqual({ topic: "nostr" });
+    expect(navigated).toEqual(["/feed"]);
+  });
+
+  test("single-event actions with clear become a publish then a clear", async () => {
+    const { ctx, published } = context({ post: { kind: 1, content: "form.content", clear: true } });
+    expect(Object.keys(await runAction("post", ctx))).toEqual(["publish", "clear"]);
+    expect(published).toHaveLength(1);
+    expect(ctx.form).toEqual({});
+  });
+
+  test("run steps nest the other action's results", async () => {
+    const { ctx } = context({ refresh: { increment: "count" }, both: { steps: [{ run: "refresh" }, { run: "refresh", as: "again" }] } });
+    const steps = await runAction("both", ctx);
+    expect(steps.run.increment).toEqual({ posted: false, count: 1 });
+    expect(steps.again.increment).toEqual({ posted: false, count: 2 });
+  });
+
+  test("stops at circular and unknown actions", async () => {
+    const { ctx } = context({ a: { steps: [{ run: "b" }] }, b: { steps: [{ run: "a" }] }, c: { steps: [{ run: "nope" }] } });
+    await expect(runAction("a", ctx)).rejects.toThrow("Circular action: a -> b -> a");
+    await expect(runAction("c", ctx)).rejects.toThrow("Unknown action: nope");
+  });
+
+  test("rejects a step that both publishes and sets, before running anything", async () => {
+    const { ctx, published } = context({
+      post: { steps: [{ set: { posted: true } }, { publish: { kind: 1, content: "form.content" }, set: { posted: true } }] },
+      inline: { kind: 1, content: "form.content", set: { posted: true } },
+    });
+    await expect(runAction("post", ctx)).rejects.toThrow("Step 2 of post mixes publish and set, split it into one step each");
+    await expect(runAction("inline", ctx)).rejects.toThrow("Step 1 of inline mixes publish and set");
+    expect(published).toHaveLength(0);
+    expect(ctx.stateOverrides).toEqual({});
+  });
+
+  test("state operations can share a step", async () => {
+    const { ctx } = context({ both: { set: { tab: "replies" }, toggle: "posted" } });
+    await runAction("both", ctx);
+    expect(ctx.stateOverrides).toEqual({ tab: "replies", posted: true });
+  });
+});
+
+describe("dryRunAction", () => {
+  const actions = {
+    post: { steps: [{ publish: { kind: 1, content: "form.content", tags: [["e", "queries.thread.id"]] } }, { set: { posted: true } }] },
+    rename: { set: { name: "form.name" } },
+  };
+  const rules = { content: { required: true }, title: { required: true } };
+
+  test("builds unsigned events and records steps without any effects", async () => {
+    const page = scope({ form: { content: "Hello" }, state: { posted: false }, queries: {} });
+    const result = await dryRunAction("post", actions, page, rules);
+
+    expect(result.events.map((event) => [event.kind, event.content])).toEqual([[1, "Hello"]]);
+    expect(result.steps.map((step) => step.type)).toEqual(["publish", "set"]);
+    expect(result.unresolved).toEqual(["queries.thread.id"]);
+    expect(result.issues).toEqual([]);
+    expect(page.state).toEqual({ posted: false });
+  });
+
+  test("only reports validation errors in fields the action reads", async () => {
+    const result = await dryRunAction("post", actions, scope({ form: { content: "" }, queries: {} }), rules);
+    expect(result.issues).toEqual(["content: Required"]);
+  });
+
+  test("state actions aren't blocked by validation", async () => {
+    const result = await dryRunAction("rename", actions, scope({ form: { name: "x" } }), rules);
+    expect(result.issues).toEqual([]);
+  });
+
+  test("reports the error that would stop the pipeline", async () => {
+    const result = await dryRunAction("post", { post: { steps: [{ publish: "missing" }] } }, scope());
+    expect(result.issues).toEqual(["Nothing to publish in step 1 of post"]);
+  });
+});
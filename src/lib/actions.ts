@@ -0,0 +1,555 @@
+/**
+ * Page actions
+ *
+ * Actions are declared in frontmatter and triggered by name, e.g. from
+ * `<Button action="post">`. An action with a `kind` signs and publishes an
+ * event; any other action changes local page state:
+ *
+ *   state:
+ *     tab: notes
+ *     expanded: false
+ *     count: 0
+ *     picked: []
+ *
+ *   actions:
+ *     show_replies: { set: { tab: replies } }
+ *     toggle_more: { toggle: expanded }
+ *     add_one: { increment: count }           # or { increment: { count: -1 } }
+ *     pick: { append: { picked: form.choice } }
+ *     start_over: { reset: true }             # or reset: tab / reset: [tab, count]
+ *
+ * State is read as `state.<name>`; `reset` returns a value to its initial one.
+ * How an action's last run went is read as `actions.<name>.status`.
+ *
+ * An action can also be a pipeline of steps, each step's result available to
+ * the steps after it as `steps.<name>` (the step type, or its `as:`):
+ *
+ *   actions:
+ *     post_and_label:
+ *       steps:
+ *         - publish: { kind: 1, content: form.content }
+ *         - publish: { kind: 1985, tags: [["L", "mood"], ["e", steps.publish.id]] }
+ *           as: label
+ *         - set: { posted: true }
+ *         - clear: true                  # or clear: [content]
+ *         - run: refresh                 # another action, its steps under steps.run
+ *         - navigate: /feed
+ */
+
+import type { EventTemplate, NostrEvent } from "nostr-tools";
+import { evaluate, type EvaluationScope, type FormValue } from "@/lib/evaluator";
+import { validateForm, type FieldRules } from "@/lib/validation";
+import type { RelayResult } from "@/lib/publish";
+
+/** Deepest chain of actions running each other */
+const MAX_ACTION_DEPTH = 10;
+
+/**
+ * How the last run of an action went:
+ * partial when some relays rejected or never answered one of its events
+ */
+export type ActionStatus = "idle" | "running" | "success" | "partial" | "error";
+
+/** What the page scope exposes about each action, as `actions.<name>` */
+export interface ActionState {
+  /** false for state actions, which never sign or publish */
+  publishes: boolean;
+  /** Form fields it reads - only errors in these block it */
+  fields: string[];
+  status: ActionStatus;
+  /** Why the last run failed */
+  error?: string;
+  /** Per-relay results for the events the last run published */
+  relays: RelayResult[];
+}
+
+/** The operations a state action can combine, applied in this order */
+const STATE_OPERATIONS = ["reset", "set", "toggle", "increment", "append"] as const;
+
+export interface StateAction {
+  /** true for everything, or the names to reset */
+  reset?: true | string | string[];
+  set?: Record<string, unknown>;
+  toggle?: string | string[];
+  /** Name(s) to add 1 to, or name -> amount */
+  increment?: string | string[] | Record<string, number>;
+  /** name -> value to add to the end of that list */
+  append?: Record<string, unknown>;
+}
+
+/** Whether an action definition only changes page state (has no event `kind`) */
+export function isStateAction(definition: unknown): definition is StateAction {
+  if (!definition || typeof definition !== "object") return false;
+  return !("kind" in definition) && STATE_OPERATIONS.some((operation) => operation in definition);
+}
+
+/**
+ * Initial page state from the `state:` block
+ * Values can reference queries or the user (`queries.profile.name`), these
+ * stay live until an action sets them.
+ */
+export function resolveInitialState(declared: unknown, scope: EvaluationScope): Record<string, any> {
+  if (!declared || typeof declared !== "object" || Array.isArray(declared)) return {};
+  const state: Record<string, any> = {};
+  for (const [name, value] of Object.entries(declared)) {
+    state[name] = resolveActionValue(value, scope);
+  }
+  return state;
+}
+
+/** Frontmatter keys the page runtime reads itself, never exposed as state */
+const RESERVED_FRONTMATTER_KEYS = new Set([
+  "state", "form", "validate", "actions", "queries", "relays", "imports", "maxImportDepth", "props",
+  // single-query shorthands
+  "profile", "event", "address", "filter",
+]);
+
+/**
+ * Top-level frontmatter values still readable as `state.<key>` (deprecated)
+ * Before pages had a `state:` block, `state` was the whole frontmatter, so
+ * older pages read e.g. `state.title`. Keys declared under `state:` win, and
+ * runtime config like `queries` or `actions` is left out.
+ */
+export function legacyState(frontmatter: Record<string, any> | null | undefined): Record<string, any> {
+  if (!frontmatter) return {};
+  const declared = frontmatter.state && typeof frontmatter.state === "object" ? frontmatter.state : {};
+  const legacy: Record<string, any> = {};
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!RESERVED_FRONTMATTER_KEYS.has(key) && !Object.hasOwn(declared, key)) legacy[key] = value;
+  }
+  return legacy;
+}
+
+/**
+ * Apply a state action to the values actions have set so far
+ * Returns the new overrides of the `initial` state; reset names are dropped
+ * so they fall back to their initial value. Values like `state.x` or
+ * `form.x` resolve against the state from before the action.
+ *
+ * @example
+ * applyStateAction({ increment: "count" }, { count: 0 }, { count: 2 }, scope) // { count: 3 }
+ * applyStateAction({ reset: true }, { count: 0 }, { count: 3 }, scope)        // {}
+ */
+export function applyStateAction(
+  action: StateAction,
+  initial: Record<string, any>,
+  overrides: Record<string, any>,
+  scope: EvaluationScope,
+  unresolved?: Set<string>
+): Record<string, any> {
+  const valueScope = { ...scope, state: { ...initial, ...overrides } };
+  const next: Record<string, any> = { ...overrides };
+  const current = (name: string) => (name in next ? next[name] : initial[name]);
+
+  const resetNames = action.reset === true ? Object.keys(next) : toNames(action.reset);
+  for (const name of resetNames) {
+    delete next[name];
+  }
+  for (const [name, value] of Object.entries(action.set ?? {})) {
+    next[name] = resolveActionValue(value, valueScope, unresolved);
+  }
+  for (const name of toNames(action.toggle)) {
+    next[name] = !current(name);
+  }
+  const increments =
+    action.increment && typeof action.increment === "object" && !Array.isArray(action.increment)
+      ? Object.entries(action.increment)
+      : toNames(action.increment).map((name) => [name, 1] as const);
+  for (const [name, amount] of increments) {
+    next[name] = (Number(current(name)) || 0) + Number(amount);
+  }
+  for (const [name, value] of Object.entries(action.append ?? {})) {
+    const list = current(name);
+    next[name] = [...(Array.isArray(list) ? list : []), resolveActionValue(value, valueScope, unresolved)];
+  }
+
+  return next;
+}
+
+function toNames(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.map(String);
+  return [];
+}
+
+/**
+ * Resolve action values - handles form.x, state.x, queries.x, steps.x, objects, special values
+ * References that resolve to nothing are added to `unresolved`, if given.
+ */
+export function resolveActionValue(value: any, scope: EvaluationScope, unresolved?: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveActionValue(item, scope, unresolved));
+  }
+  if (typeof value === "object" && value !== null) {
+    const resolved: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      resolved[k] = resolveActionValue(v, scope, unresolved);
+    }
+    return resolved;
+  }
+  if (typeof value !== "string") return value;
+  if (value === "now") return Math.floor(Date.now() / 1000);
+  if (value === "user" || value === "user.pubkey") {
+    if (!scope.user) unresolved?.add(value);
+    return scope.user;
+  }
+  if (REFERENCE_PREFIXES.some((prefix) => value.startsWith(prefix))) {
+    const result = evaluate(value, scope);
+    if (result === undefined || result === null) unresolved?.add(value);
+    return result;
+  }
+  return value;
+}
+
+const REFERENCE_PREFIXES = ["form.", "state.", "queries.", "steps."];
+
+// =============================================================================
+// EVENTS
+// =============================================================================
+
+/** An event to publish, as declared in frontmatter */
+export interface EventDefinition {
+  kind: number | string;
+  content?: unknown;
+  /** Expression for an existing JSON object to merge `content` into, e.g. queries.profile */
+  base?: string;
+  tags?: unknown[][];
+  /** Clear the form after publishing (single-event actions only) */
+  clear?: boolean;
+}
+
+/**
+ * Resolve an event definition into an unsigned event
+ *
+ * @example
+ * buildEventTemplate({ kind: 1, content: "form.note", tags: [["t", "hypernote"]] }, scope)
+ * // { kind: 1, content: "Hello", tags: [["t", "hypernote"]], created_at: 1700000000 }
+ */
+export function buildEventTemplate(
+  definition: EventDefinition,
+  scope: EvaluationScope,
+  unresolved?: Set<string>
+): EventTemplate {
+  const kind = typeof definition.kind === "number" ? definition.kind : parseInt(definition.kind, 10);
+  let content = resolveActionValue(definition.content, scope, unresolved);
+
+  // Handle base merging
+  if (definition.base) {
+    const baseResult = evaluate(definition.base, scope);
+    if (baseResult === undefined || baseResult === null) unresolved?.add(definition.base);
+    let baseObj: Record<string, any> = {};
+    if (typeof baseResult === "string") {
+      try { baseObj = JSON.parse(baseResult); } catch {}
+    } else if (typeof baseResult === "object" && baseResult) {
+      baseObj = baseResult;
+    }
+
+    let contentObj: Record<string, any> = {};
+    if (typeof content === "string" && content.trim().startsWith("{")) {
+      try { contentObj = JSON.parse(content); } catch {}
+    } else if (typeof content === "object" && content) {
+      contentObj = content;
+    }
+
+    const merged = { ...baseObj, ...contentObj };
+    for (const k of Object.keys(merged)) {
+      if (merged[k] === "" || merged[k] === null) delete merged[k];
+    }
+    content = merged;
+  }
+
+  const tags = (definition.tags ?? []).map((tag) => tag.map((v) => serializeValue(resolveActionValue(v, scope, unresolved))));
+
+  return {
+    kind,
+    content: serializeValue(content),
+    tags,
+    created_at: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * A resolved action value as event content or a tag value
+ * Numbers (amounts, unix timestamps) and booleans become their string form,
+ * empty fields an empty string, objects JSON.
+ */
+function serializeValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// =============================================================================
+// PIPELINES
+// =============================================================================
+
+/** One step of an action: a publish, clear, navigate or run, or state operations */
+export type ActionStep = StateAction & {
+  /** An event to publish, or the name of an action whose event to publish */
+  publish?: EventDefinition | string;
+  /** true to clear the whole form, or the fields to clear */
+  clear?: true | string | string[];
+  /** Path or URL to go to */
+  navigate?: string;
+  /** Name of another action to run */
+  run?: string;
+  /** Name of the step's result under `steps.` (defaults to the step type) */
+  as?: string;
+};
+
+/**
+ * The steps of an action definition
+ * Single-event and state actions are one-step pipelines.
+ */
+export function getActionSteps(definition: unknown): ActionStep[] {
+  if (!definition || typeof definition !== "object") return [];
+  const { steps, ...rest } = definition as Record<string, any>;
+
+  if (Array.isArray(steps)) {
+    return steps.filter((step): step is ActionStep => !!step && typeof step === "object");
+  }
+  if ("kind" in rest) {
+    const event = rest as EventDefinition;
+    // State operations next to `kind` stay on the step, so runAction rejects the mix
+    const operations = Object.fromEntries(STATE_OPERATIONS.filter((op) => op in rest).map((op) => [op, rest[op]]));
+    return event.clear ? [{ publish: event, ...operations }, { clear: true }] : [{ publish: event, ...operations }];
+  }
+  return isStateAction(rest) ? [rest] : [];
+}
+
+/**
+ * Whether running an action publishes anything, directly or through `run`
+ *
+ * @example
+ * actionPublishes("toggle_more", { toggle_more: { toggle: "expanded" } }) // false
+ */
+export function actionPublishes(name: string, actions: Record<string, unknown>, seen = new Set<string>()): boolean {
+  if (seen.has(name)) return false;
+  seen.add(name);
+  return getActionSteps(actions[name]).some(
+    (step) => step.publish !== undefined || (step.run !== undefined && actionPublishes(step.run, actions, seen))
+  );
+}
+
+/**
+ * Form fields an action reads, directly or through `run` and named `publish` steps
+ *
+ * @example
+ * actionFormFields("post", { post: { kind: 1, content: "form.content", tags: [["t", "form.topic"]] } })
+ * // ["content", "topic"]
+ */
+export function actionFormFields(name: string, actions: Record<string, unknown>, seen = new Set<string>()): string[] {
+  if (seen.has(name)) return [];
+  seen.add(name);
+  const fields = new Set<string>();
+
+  const collect = (value: unknown) => {
+    if (typeof value === "string") {
+      for (const match of value.matchAll(FORM_REFERENCE)) fields.add(match[1]!);
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(collect);
+    }
+  };
+
+  for (const step of getActionSteps(actions[name])) {
+    collect(step);
+    if (typeof step.publish === "string") collect(actions[step.publish]);
+    if (step.run !== undefined) actionFormFields(step.run, actions, seen).forEach((field) => fields.add(field));
+  }
+  return [...fields];
+}
+
+/** `form.<field>` anywhere in a value, including inside JSON content templates */
+const FORM_REFERENCE = /\bform\.([A-Za-z_$][\w$]*)/g;
+
+/** Step types that can't share a step; state operations count as one */
+const STEP_KINDS = ["publish", "run", "clear", "navigate"] as const;
+
+/**
+ * What a step does, e.g. ["publish", "set"] for a step that would publish and set
+ *
+ * @example
+ * stepKinds({ set: { a: 1 }, toggle: "b" }) // ["set/toggle"]
+ */
+function stepKinds(step: ActionStep): string[] {
+  const kinds: string[] = STEP_KINDS.filter((kind) => step[kind] !== undefined);
+  const operations = STATE_OPERATIONS.filter((operation) => operation in step);
+  if (operations.length > 0) kinds.push(operations.join("/"));
+  return kinds;
+}
+
+/** Everything a running action reads and the effects it can have */
+export interface ActionContext {
+  /** Declared actions by name */
+  actions: Record<string, unknown>;
+  initialState: Record<string, any>;
+  /** Values set by state actions, updated as steps run */
+  stateOverrides: Record<string, any>;
+  /** Form values, updated as steps run */
+  form: Record<string, FormValue>;
+  /** Everything else expressions can read (queries, user, ...) */
+  scope: EvaluationScope;
+  /** Sign and publish an event, resolving to the published event */
+  publish: (template: EventTemplate) => Promise<NostrEvent>;
+  onStateChange?: (overrides: Record<string, any>) => void;
+  onFormChange?: (form: Record<string, FormValue>) => void;
+  navigate?: (to: string) => void;
+  /** Called after every step, including the steps of actions it runs */
+  onStep?: (step: StepRecord) => void;
+  /** Collects references that resolved to nothing */
+  unresolved?: Set<string>;
+}
+
+/** A step that ran, as reported to `onStep` */
+export interface StepRecord {
+  /** Action the step belongs to */
+  action: string;
+  type: string;
+  /** Name of the result under `steps.` */
+  name: string;
+  result: any;
+}
+
+/**
+ * Run an action's steps in order
+ * Resolves to the result of every step by name; throws (stopping the
+ * pipeline) if a step fails.
+ */
+export async function runAction(name: string, context: ActionContext, path: string[] = []): Promise<Record<string, any>> {
+  const definition = context.actions[name];
+  if (!definition) throw new Error(`Unknown action: ${name}`);
+  if (path.includes(name)) throw new Error(`Circular action: ${[...path, name].join(" -> ")}`);
+  if (path.length >= MAX_ACTION_DEPTH) throw new Error(`Action depth limit (${MAX_ACTION_DEPTH}) exceeded`);
+
+  const actionSteps = getActionSteps(definition);
+  actionSteps.forEach((step, index) => {
+    const kinds = stepKinds(step);
+    if (kinds.length > 1) {
+      throw new Error(`Step ${index + 1} of ${name} mixes ${kinds.join(" and ")}, split it into one step each`);
+    }
+  });
+
+  const steps: Record<string, any> = {};
+  const stepScope = (): EvaluationScope => ({
+    ...context.scope,
+    state: { ...context.initialState, ...context.stateOverrides },
+    form: context.form,
+    steps,
+  });
+
+  for (const step of actionSteps) {
+    let type: string;
+    let result: any;
+
+    if (step.publish !== undefined) {
+      type = "publish";
+      const event = typeof step.publish === "string" ? context.actions[step.publish] : step.publish;
+      if (!event || typeof event !== "object" || !("kind" in event)) {
+        throw new Error(`Nothing to publish in step ${Object.keys(steps).length + 1} of ${name}`);
+      }
+      result = await context.publish(buildEventTemplate(event as EventDefinition, stepScope(), context.unresolved));
+    } else if (step.run !== undefined) {
+      type = "run";
+      result = await runAction(step.run, context, [...path, name]);
+    } else if (step.clear !== undefined) {
+      type = "clear";
+      const fields = step.clear === true ? Object.keys(context.form) : typeof step.clear === "string" ? [step.clear] : step.clear;
+      const form = { ...context.form };
+      for (const field of fields) delete form[field];
+      context.form = form;
+      context.onFormChange?.(form);
+      result = true;
+    } else if (step.navigate !== undefined) {
+      type = "navigate";
+      result = String(resolveActionValue(step.navigate, stepScope(), context.unresolved) ?? "");
+      context.navigate?.(result);
+    } else if (isStateAction(step)) {
+      type = STATE_OPERATIONS.find((operation) => operation in step)!;
+      context.stateOverrides = applyStateAction(step, context.initialState, context.stateOverrides, stepScope(), context.unresolved);
+      context.onStateChange?.(context.stateOverrides);
+      result = { ...context.initialState, ...context.stateOverrides };
+    } else {
+      console.warn(`[${name}] Unknown action step:`, step);
+      continue;
+    }
+
+    const stepName = step.as ?? type;
+    steps[stepName] = result;
+    context.onStep?.({ action: name, type, name: stepName, result });
+  }
+
+  return steps;
+}
+
+// =============================================================================
+// DRY RUN
+// =============================================================================
+
+/** What running an action would do, without signing or publishing */
+export interface DryRunResult {
+  /** Unsigned events in publish order */
+  events: EventTemplate[];
+  /** Every step that would run, in order */
+  steps: StepRecord[];
+  /** References that resolved to nothing (empty content, missing tags) */
+  unresolved: string[];
+  /** Validation errors and the error that would stop the pipeline */
+  issues: string[];
+}
+
+/** Placeholder id of a dry-run event, so later steps can reference it */
+const DRY_RUN_ID = "<unsigned>";
+
+/**
+ * Run an action against a scope without any effects
+ * Events are built but not signed, state and form changes are only
+ * recorded, navigation doesn't happen. Later steps see placeholder
+ * ids for the events earlier steps would publish.
+ *
+ * @example
+ * const { events, unresolved, issues } = await dryRunAction("post", frontmatter.actions, scope, rules);
+ * events[0]     // { kind: 1, content: "Hello", tags: [], created_at: ... }
+ * unresolved    // ["queries.thread.id"]
+ * issues        // ["content: Required"]
+ */
+export async function dryRunAction(
+  name: string,
+  actions: Record<string, unknown>,
+  scope: EvaluationScope,
+  rules: Record<string, FieldRules> = {}
+): Promise<DryRunResult> {
+  const { $errors, ...form } = scope.form;
+  const events: EventTemplate[] = [];
+  const steps: StepRecord[] = [];
+  const unresolved = new Set<string>();
+  const issues: string[] = [];
+
+  if (actionPublishes(name, actions)) {
+    const fields = actionFormFields(name, actions);
+    for (const [field, error] of Object.entries(validateForm(rules, form, scope))) {
+      if (fields.includes(field)) issues.push(`${field}: ${error}`);
+    }
+  }
+
+  try {
+    await runAction(name, {
+      actions,
+      initialState: scope.state ?? {},
+      stateOverrides: {},
+      form,
+      scope,
+      publish: async (template) => {
+        events.push(template);
+        return { ...template, id: DRY_RUN_ID, pubkey: scope.user ?? DRY_RUN_ID, sig: "" };
+      },
+      onStep: (step) => steps.push(step),
+      unresolved,
+    });
+  } catch (error) {
+    issues.push(error instanceof Error ? error.message : String(error));
+  }
+
+  return { events, steps, unresolved: [...unresolved], issues };
+}
@@ -5,9 +5,11 @@
 
 import type { ReactNode } from "react";
 import { useMemo } from "react";
-import { useNostrQuery } from "@/hooks/useNostrQuery";
+import { useNostrQueryState } from "@/hooks/useNostrQuery";
 import { parsePubkey, parseEventId } from "@/lib/nip19";
 import { useScope } from "@/hooks/usePageContext";
+import { getPath } from "@/lib/filters";
+import type { FormValue } from "@/lib/evaluator";
 import {
   type ContainerStyleProps,
   type ZStackStyleProps,
@@ -25,6 +27,19 @@ import {
 
 interface StackProps extends ContainerStyleProps {
   children?: ReactNode;
+  /** Run this action on click, e.g. a tab that sets state.tab */
+  action?: string;
+}
+
+/** Click props for a container that runs an action (none without one) */
+function useActionClick(action: string | undefined) {
+  const { executeAction } = useScope();
+  if (!action) return {};
+  return {
+    role: "button",
+    onClick: () => executeAction(action),
+    style: { cursor: "pointer" },
+  };
 }
 
 interface ZStackProps extends ZStackStyleProps {
@@ -32,15 +47,18 @@ interface ZStackProps extends ZStackStyleProps {
 }
 
 export function HStack(props: StackProps) {
-  const { children, ...styleProps } = props;
+  const { children, action, ...styleProps } = props;
   const containerStyles = resolveContainerStyles(styleProps);
+  const { style: clickStyle, ...click } = useActionClick(action);
 
   return (
     <div
+      {...click}
       style={{
         display: "flex",
         flexDirection: "row",
         ...containerStyles,
+        ...clickStyle,
       }}
     >
       {children}
@@ -49,15 +67,18 @@ export function HStack(props: StackProps) {
 }
 
 export function VStack(props: StackProps) {
-  const { children, ...styleProps } = props;
+  const { children, action, ...styleProps } = props;
   const containerStyles = resolveContainerStyles(styleProps);
+  const { style: clickStyle, ...click } = useActionClick(action);
 
   return (
     <div
+      {...click}
       style={{
         display: "flex",
         flexDirection: "column",
         ...containerStyles,
+        ...clickStyle,
       }}
     >
       {children}
@@ -155,16 +176,21 @@ export function Note({ id }: { id: string }) {
     }
   }, [id]);
 
-  const events = useNostrQuery(
+  const { value: events, status } = useNostrQueryState(
     parseResult.valid ? { type: "event", id } : undefined
   );
   const event = Array.isArray(events) ? events[0] : events;
 
-  if (parseResult.error) {
-    return <div className="text-red-500 text-sm">Note: {parseResult.error}</div>;
+  const error = parseResult.error ?? status.error;
+  if (error) {
+    return <div className="text-red-500 text-sm">Note: {error}</div>;
   }
   if (!event) {
-    return <div className="text-neutral-500 text-sm">Loading note...</div>;
+    return (
+      <div className="text-neutral-500 text-sm">
+        {status.loading ? "Loading note..." : "Note not found"}
+      </div>
+    );
   }
 
   return (
@@ -193,20 +219,22 @@ export function Profile({ pubkey }: { pubkey: string }) {
     }
   }, [pubkey]);
 
-  const profile = useNostrQuery(
+  const { value: profile, status } = useNostrQueryState(
     parseResult.valid ? { type: "profile", pubkey } : undefined
   );
 
-  if (parseResult.error) {
-    return <div className="text-red-500 text-sm">Profile: {parseResult.error}</div>;
+  const error = parseResult.error ?? status.error;
+  if (error) {
+    return <div className="text-red-500 text-sm">Profile: {error}</div>;
   }
-  if (!profile) {
+  if (!profile && status.loading) {
     return <div className="text-neutral-500 text-sm">Loading profile...</div>;
   }
 
+  // No kind:0 found - still show the (shortened) pubkey
   const displayPubkey = parseResult.hex || pubkey;
-  const name = profile.name || profile.display_name || displayPubkey.slice(0, 8) + "...";
-  const picture = profile.picture;
+  const name = profile?.name || profile?.display_name || displayPubkey.slice(0, 8) + "...";
+  const picture = profile?.picture;
 
   return (
     <div className="flex items-center gap-2">
@@ -226,47 +254,282 @@ export function Profile({ pubkey }: { pubkey: string }) {
 // FORM COMPONENTS
 // =============================================================================
 
+const FIELD_CLASS = "border border-neutral-400 rounded px-2 py-1 w-full bg-white";
+
+/** A form value as text for text-like inputs */
+function textValue(value: FormValue | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * The validation error of a field, once it has been edited
+ * (untouched fields are undefined, so empty required fields don't start out red)
+ */
+function useFieldError(name: string): string | undefined {
+  const { form } = useScope();
+  return form[name] === undefined ? undefined : form.$errors?.[name];
+}
+
+function FieldError({ error }: { error?: string }) {
+  return error ? <div className="text-red-500 text-sm mt-1">{error}</div> : null;
+}
+
 export function Input({ name, placeholder }: { name: string; placeholder?: string }) {
+  const { form, updateForm } = useScope();
+  const error = useFieldError(name);
+  return (
+    <div className="w-full">
+      <input
+        type="text"
+        name={name}
+        value={textValue(form[name])}
+        placeholder={placeholder ?? name}
+        onChange={(e) => updateForm(name, e.target.value)}
+        aria-invalid={!!error}
+        className={`${FIELD_CLASS} ${error ? "border-red-500" : ""}`}
+      />
+      <FieldError error={error} />
+    </div>
+  );
+}
+
+export function Textarea({ name, placeholder, rows }: { name: string; placeholder?: string; rows?: number }) {
+  const { form, updateForm } = useScope();
+  const error = useFieldError(name);
+  return (
+    <div className="w-full">
+      <textarea
+        name={name}
+        value={textValue(form[name])}
+        placeholder={placeholder ?? name}
+        rows={rows ?? 4}
+        onChange={(e) => updateForm(name, e.target.value)}
+        aria-invalid={!!error}
+        className={`${FIELD_CLASS} resize-y ${error ? "border-red-500" : ""}`}
+      />
+      <FieldError error={error} />
+    </div>
+  );
+}
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface OptionsProps {
+  /** "a, b, c", a list of strings, or a list of objects (e.g. query results) */
+  options?: unknown;
+  /** Field of each object option to store, e.g. "id" (default "value") */
+  optionValue?: string;
+  /** Field of each object option to show, e.g. "content" (defaults to the value) */
+  optionLabel?: string;
+}
+
+/**
+ * Normalize the options of a Select or RadioGroup
+ *
+ * @example
+ * toOptions({ options: "yes, no" })
+ * // [{ value: "yes", label: "yes" }, { value: "no", label: "no" }]
+ * toOptions({ options: queries.relays, optionValue: "url", optionLabel: "name" })
+ * // [{ value: "wss://...", label: "Damus" }, ...]
+ */
+function toOptions({ options, optionValue = "value", optionLabel }: OptionsProps): Option[] {
+  const list = typeof options === "string" ? options.split(",").map((option) => option.trim()).filter(Boolean) : options;
+  if (!Array.isArray(list)) return [];
+
+  return list.map((option) => {
+    if (option === null || typeof option !== "object") {
+      return { value: String(option), label: String(option) };
+    }
+    const value = String(getPath(option, optionValue) ?? "");
+    const label = optionLabel ? getPath(option, optionLabel) : undefined;
+    return { value, label: label === undefined || label === null ? value : String(label) };
+  });
+}
+
+/**
+ * Select - pick one of a list of options
+ * Usage:
+ *   <Select name="size" options="small, medium, large" />
+ *   <Select name="relay" options={queries.relays} optionValue="url" optionLabel="name" placeholder="Pick a relay" />
+ */
+export function Select({ name, placeholder, ...optionsProps }: { name: string; placeholder?: string } & OptionsProps) {
+  const { form, updateForm } = useScope();
+  const options = toOptions(optionsProps);
+  return (
+    <select
+      name={name}
+      value={textValue(form[name])}
+      onChange={(e) => updateForm(name, e.target.value || null)}
+      className={FIELD_CLASS}
+    >
+      <option value="">{placeholder ?? `Select ${name}`}</option>
+      {options.map((option, i) => (
+        <option key={`${option.value}-${i}`} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * RadioGroup - pick one of a list of options, all shown at once
+ * Usage: <RadioGroup name="rsvp" options="going, maybe, not going" />
+ */
+export function RadioGroup({ name, ...optionsProps }: { name: string } & OptionsProps) {
+  const { form, updateForm } = useScope();
+  const options = toOptions(optionsProps);
+  return (
+    <div role="radiogroup" className="flex flex-col gap-1">
+      {options.map((option, i) => (
+        <label key={`${option.value}-${i}`} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={name}
+            value={option.value}
+            checked={form[name] === option.value}
+            onChange={() => updateForm(name, option.value)}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** Checkbox - stores true/false. Usage: <Checkbox name="agree" label="I agree" /> */
+export function Checkbox({ name, label, children }: { name: string; label?: string; children?: ReactNode }) {
+  const { form, updateForm } = useScope();
+  return (
+    <label className="flex items-center gap-2">
+      <input type="checkbox" name={name} checked={form[name] === true} onChange={(e) => updateForm(name, e.target.checked)} />
+      {children ?? label}
+    </label>
+  );
+}
+
+/** Toggle - an on/off switch, stores true/false. Usage: <Toggle name="public" label="Public" /> */
+export function Toggle({ name, label, children }: { name: string; label?: string; children?: ReactNode }) {
+  const { form, updateForm } = useScope();
+  const on = form[name] === true;
+  return (
+    <label className="flex items-center gap-2 cursor-pointer">
+      <button
+        type="button"
+        role="switch"
+        aria-checked={on}
+        onClick={() => updateForm(name, !on)}
+        className={`relative w-10 h-6 rounded-full transition-colors ${on ? "bg-blue-600" : "bg-neutral-400"}`}
+      >
+        <span
+          className={`absolute top-1 left-1 w-4 h-4 rounded-full bg-white transition-transform ${on ? "translate-x-4" : ""}`}
+        />
+      </button>
+      {children ?? label}
+    </label>
+  );
+}
+
+interface RangeProps {
+  name: string;
+  min?: number | string;
+  max?: number | string;
+  step?: number | string;
+}
+
+/** NumberInput - stores a number, or nothing while empty. Usage: <NumberInput name="amount" min="1" /> */
+export function NumberInput({ name, placeholder, min, max, step }: RangeProps & { placeholder?: string }) {
   const { form, updateForm } = useScope();
   return (
     <input
-      type="text"
+      type="number"
       name={name}
-      value={form[name] ?? ""}
+      value={textValue(form[name])}
       placeholder={placeholder ?? name}
-      onChange={(e) => updateForm(name, e.target.value)}
-      className="border border-neutral-400 rounded px-2 py-1 w-full bg-white"
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => updateForm(name, e.target.value === "" ? null : e.target.valueAsNumber)}
+      className={FIELD_CLASS}
     />
   );
 }
 
-export function Textarea({ name, placeholder, rows }: { name: string; placeholder?: string; rows?: number }) {
+/** Slider - stores a number. Usage: <Slider name="rating" min="1" max="5" /> */
+export function Slider({ name, min = 0, max = 100, step = 1 }: RangeProps) {
+  const { form, updateForm } = useScope();
+  const value = typeof form[name] === "number" ? form[name] : Number(min);
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="range"
+        name={name}
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => updateForm(name, e.target.valueAsNumber)}
+        className="flex-1"
+      />
+      <span className="w-10 text-right tabular-nums">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * DateTimeInput - stores unix seconds, like nostr timestamps
+ * Usage: <DateTimeInput name="starts" />  then  ["start", form.starts] in an action
+ */
+export function DateTimeInput({ name }: { name: string }) {
   const { form, updateForm } = useScope();
+  const seconds = form[name];
   return (
-    <textarea
+    <input
+      type="datetime-local"
       name={name}
-      value={form[name] ?? ""}
-      placeholder={placeholder ?? name}
-      rows={rows ?? 4}
-      onChange={(e) => updateForm(name, e.target.value)}
-      className="border border-neutral-400 rounded px-2 py-1 w-full bg-white resize-y"
+      value={typeof seconds === "number" ? toLocalDateTime(seconds) : ""}
+      onChange={(e) => {
+        const time = new Date(e.target.value).getTime();
+        updateForm(name, Number.isNaN(time) ? null : Math.floor(time / 1000));
+      }}
+      className={FIELD_CLASS}
     />
   );
 }
 
+/** Unix seconds as a datetime-local input value (local time, minute precision) */
+function toLocalDateTime(seconds: number): string {
+  const date = new Date(seconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
 export function Button({ action, children }: { action?: string; children?: ReactNode }) {
-  const { executeAction, isPublishing } = useScope();
+  const { executeAction, isPublishing, form, actions } = useScope();
+  // State actions run instantly; publishing ones wait for the last publish, and
+  // for the fields they read to be valid (even ones whose error isn't shown yet)
+  const publishes = !action || (actions?.[action]?.publishes ?? true);
+  const busy = publishes && isPublishing;
+  const fields = (action && actions?.[action]?.fields) || [];
+  const blocking = publishes ? Object.entries(form.$errors ?? {}).filter(([field]) => fields.includes(field)) : [];
+  const invalid = blocking.length > 0;
   return (
     <button
       onClick={() => action && executeAction(action)}
-      disabled={isPublishing}
+      disabled={busy || invalid}
+      title={invalid ? `Fix first: ${blocking.map(([field, error]) => `${field} (${error})`).join(", ")}` : undefined}
       className={
-        isPublishing
+        busy
           ? "bg-neutral-400 text-white px-4 py-2 rounded cursor-wait"
-          : "bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+          : invalid
+            ? "bg-neutral-400 text-white px-4 py-2 rounded cursor-not-allowed"
+            : "bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
       }
     >
-      {isPublishing ? "Publishing..." : children}
+      {busy ? "Publishing..." : children}
     </button>
   );
 }
@@ -285,5 +548,12 @@ export const builtinComponents: Record<string, React.ComponentType<any>> = {
   Profile,
   Input,
   Textarea,
+  Select,
+  RadioGroup,
+  Checkbox,
+  Toggle,
+  NumberInput,
+  Slider,
+  DateTimeInput,
   Button,
 };
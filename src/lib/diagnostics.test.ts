@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { diagnose } from "@/lib/diagnostics";
+
+/**
+ * A document shaped like zig-mdx output: frontmatter plus one text expression
+ * per `{...}` in the body. Expression positions only span the opening brace.
+ */
+function document(frontmatter: string, body: string) {
+  const source = `---\n${frontmatter}\n---\n${body}`;
+  const children: any[] = [{ type: "frontmatter", value: frontmatter }];
+  for (const match of body.matchAll(/\{([^}]*)\}/g)) {
+    const start = source.indexOf(match[0], source.indexOf("---\n", 4));
+    children.push({ type: "mdx_text_expression", value: match[1], position: { start, end: start + 1 } });
+  }
+  return { type: "root", source, children };
+}
+
+describe("diagnose", () => {
+  test("points unknown names and filters at their text", () => {
+    const ast = document("title: Hi", "{querys.events | lenght}");
+    const found = diagnose(ast).map((d) => [d.message, ast.source.slice(d.start, d.end)]);
+    expect(found).toEqual([
+      ['Unknown name "querys" (did you mean "queries"?)', "querys"],
+      ['Unknown filter "lenght"', "lenght"],
+    ]);
+  });
+
+  test("reports each legacy state key once, wherever it's read", () => {
+    const ast = document(
+      "title: Hi\nstate:\n  count: 0\nactions:\n  rename: { set: { count: state.title } }",
+      "{state.title} {state.title | uppercase} {state.count} {state.queries}"
+    );
+    const found = diagnose(ast).map((d) => [d.severity, d.message, ast.source.slice(d.start, d.end)]);
+    expect(found).toEqual([
+      [
+        "warning",
+        'state.title reads the top-level frontmatter key "title", which is deprecated: declare it under state: instead',
+        "state.title",
+      ],
+    ]);
+  });
+
+  test("reports legacy reads that only appear in actions", () => {
+    const ast = document("title: Hi\nactions:\n  rename: { set: { name: state.title } }", "No expressions");
+    expect(diagnose(ast).map((d) => d.message)).toEqual([
+      'state.title reads the top-level frontmatter key "title", which is deprecated: declare it under state: instead',
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Static checks over a parsed document
+ *
+ * Walks the AST from `parseMdxWithPositions` and reports problems that would
+ * otherwise only show up as blank output or console warnings at render time:
+ *
+ *   {queries.events | lenght}      unknown filter "lenght"
+ *   {querys.events}                unknown scope root "querys"
+ *   {note.content | truncate(}     syntax error
+ *   <Cardd />                      unknown component "Cardd"
+ *   {state.title}                  deprecated read of a top-level frontmatter key
+ *
+ * Offsets point into the source the AST was parsed from.
+ */
+
+import { parseExpression, walkExpression, type ExpressionNode } from "@/lib/expression";
+import { collectFilterNames, getFilter } from "@/lib/filters";
+import { getDeclaredImports, getFrontmatter } from "@/lib/imports";
+import { legacyState } from "@/lib/actions";
+import { builtinComponents } from "@/lib/builtins";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  /** Offset range in the source */
+  start: number;
+  end: number;
+}
+
+/** Names every page scope provides (see usePageContext) */
+const SCOPE_ROOTS = ["props", "queries", "state", "form", "actions", "user", "item", "index"];
+
+/** Tags handled by the renderer itself rather than a component */
+const CONTROL_FLOW = new Set(["if", "elseif", "else", "switch", "case", "default", "each", "empty", "slot", "fill"]);
+
+/** Loop variables available inside <Each>, besides the `as` name */
+const LOOP_VARIABLES = ["count", "first", "last", "outer"];
+
+/** <Each> attributes evaluated per item, with the item bound */
+const PER_ITEM_ATTRIBUTES = new Set(["key", "sort"]);
+
+type Position = { start: number; end: number };
+
+/**
+ * Check every expression, attribute and component in a document
+ *
+ * @example
+ * diagnose(await parseMdxWithPositions("{querys.events}"))
+ * // [{ severity: "warning", message: 'Unknown name "querys" (did you mean "queries"?)', start: 1, end: 7 }]
+ */
+export function diagnose(ast: any): Diagnostic[] {
+  const source: string = typeof ast?.source === "string" ? ast.source : "";
+  const imported = new Set(Object.keys(getDeclaredImports(ast)));
+  const frontmatter = getFrontmatter(ast);
+  const legacy = new Set(Object.keys(legacyState(frontmatter)));
+  // Legacy keys read anywhere in the page, reported once each at the end
+  const legacyReads = new Set<string>();
+  const diagnostics: Diagnostic[] = [];
+
+  const checkExpression = (expression: string, offset: number, names: string[]) => {
+    const cleaned = expression.trim().replace(/^{|}$/g, "");
+    if (!cleaned.trim()) return;
+    // Offset of the expression text itself, so positions inside it line up
+    const base = offset + Math.max(0, expression.indexOf(cleaned));
+
+    let parsed: ExpressionNode;
+    try {
+      parsed = parseExpression(cleaned);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid expression";
+      const at = /at position (\d+)/.exec(message);
+      const start = at ? base + Number(at[1]) : base;
+      diagnostics.push({ severity: "error", message, start, end: at ? start + 1 : base + cleaned.length });
+      return;
+    }
+
+    for (const key of collectStateKeys(parsed)) {
+      if (legacy.has(key)) legacyReads.add(key);
+    }
+
+    // Where a name sits in the source, checked against the text so a bad
+    // position from the parser can't underline the wrong characters
+    const nameAt = (name: string) => {
+      const start = base + findWord(cleaned, name);
+      if (source.slice(start, start + name.length) === name) return start;
+      const found = source.indexOf(name, offset);
+      return found !== -1 ? found : start;
+    };
+
+    for (const name of collectFilterNames(parsed)) {
+      if (getFilter(name)) continue;
+      const start = nameAt(name);
+      diagnostics.push({ severity: "error", message: `Unknown filter "${name}"`, start, end: start + name.length });
+    }
+
+    for (const name of collectIdentifiers(parsed)) {
+      if (names.includes(name)) continue;
+      const suggestion = closest(name, names);
+      const start = nameAt(name);
+      diagnostics.push({
+        severity: "warning",
+        message: `Unknown name "${name}"` + (suggestion ? ` (did you mean "${suggestion}"?)` : ""),
+        start,
+        end: start + name.length,
+      });
+    }
+  };
+
+  const visit = (node: any, names: string[]) => {
+    if (!node || typeof node !== "object") return;
+    const position: Position | undefined = node.position;
+
+    switch (node.type) {
+      case "mdx_text_expression":
+      case "mdx_flow_expression":
+        if (position && typeof node.value === "string") {
+          checkExpression(node.value, locate(source, node.value, position), names);
+        }
+        return;
+
+      case "mdx_jsx_element":
+      case "mdx_jsx_self_closing": {
+        const name = String(node.name ?? "").trim();
+        const lower = name.toLowerCase();
+        const known =
+          !name ||
+          CONTROL_FLOW.has(lower) ||
+          Object.keys(builtinComponents).some((builtin) => builtin.toLowerCase() === lower) ||
+          imported.has(name);
+        if (!known && position) {
+          const start = position.start + 1;
+          diagnostics.push({ severity: "warning", message: `Unknown component "${name}"`, start, end: start + name.length });
+        }
+
+        // <Each as="note"> brings `note` and the loop variables into scope for its children
+        let childNames = names;
+        if (lower === "each") {
+          const as = node.attributes?.find((attr: any) => attr.name === "as");
+          childNames = [...names, ...LOOP_VARIABLES];
+          if (as?.type === "literal" && as.value) childNames.push(String(as.value));
+        }
+
+        for (const attr of node.attributes ?? []) {
+          if (attr.type !== "expression" || typeof attr.value !== "string" || !position) continue;
+          const attrNames = lower === "each" && PER_ITEM_ATTRIBUTES.has(attr.name) ? childNames : names;
+          checkExpression(attr.value, locateAttribute(source, attr.name, attr.value, position), attrNames);
+        }
+
+        node.children?.forEach((child: any) => visit(child, childNames));
+        return;
+      }
+
+      default:
+        node.children?.forEach((child: any) => visit(child, names));
+    }
+  };
+
+  visit(ast, SCOPE_ROOTS);
+
+  // Actions, form defaults and validation rules read state from frontmatter values
+  const visitValue = (value: unknown) => {
+    if (typeof value === "string") {
+      try {
+        for (const key of collectStateKeys(parseExpression(value.trim().replace(/^{|}$/g, "")))) {
+          if (legacy.has(key)) legacyReads.add(key);
+        }
+      } catch {
+        // Plain text, not an expression
+      }
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visitValue);
+    }
+  };
+  [frontmatter.state, frontmatter.form, frontmatter.validate, frontmatter.actions].forEach(visitValue);
+
+  for (const key of legacyReads) {
+    const read = `state.${key}`;
+    const start = findWord(source, read);
+    diagnostics.push({
+      severity: "warning",
+      message: `${read} reads the top-level frontmatter key "${key}", which is deprecated: declare it under state: instead`,
+      start,
+      end: start + read.length,
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 1-based line and column of an offset, for display
+ *
+ * @example
+ * lineColumn("a\nbc", 3) // { line: 2, column: 2 }
+ */
+export function lineColumn(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const lastBreak = before.lastIndexOf("\n");
+  return { line: before.split("\n").length, column: offset - lastBreak };
+}
+
+/** Names an expression reads from the scope */
+function collectIdentifiers(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  walkExpression(node, (node) => {
+    if (node.type === "identifier") names.add(node.name);
+  });
+  return [...names];
+}
+
+/** Keys an expression reads directly off `state` */
+function collectStateKeys(node: ExpressionNode): string[] {
+  const keys = new Set<string>();
+  walkExpression(node, (node) => {
+    if (node.type === "member" && node.object.type === "identifier" && node.object.name === "state") {
+      keys.add(String(node.property));
+    }
+  });
+  return [...keys];
+}
+
+/**
+ * Offset of an expression's text, searching forward from its node's start
+ * Expression nodes from zig-mdx only span their opening `{`, so the text
+ * always runs past `position.end` and can't be bounded by it.
+ */
+function locate(source: string, text: string, position: Position): number {
+  const index = source.indexOf(text, position.start);
+  return index !== -1 ? index : position.start;
+}
+
+/** Offset of an attribute's expression inside its element's opening tag */
+function locateAttribute(source: string, name: string, value: string, position: Position): number {
+  const attrStart = source.indexOf(`${name}=`, position.start);
+  const from = attrStart !== -1 && attrStart < position.end ? attrStart : position.start;
+  return locate(source, value, { start: from, end: position.end });
+}
+
+/** First whole-word occurrence of a name in an expression, 0 if not found */
+function findWord(text: string, word: string): number {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(`(^|[^\\w$.])${escaped}(?![\\w$])`).exec(text);
+  return match ? match.index + match[1]!.length : 0;
+}
+
+/** The candidate within two edits of a misspelled name, if any */
+function closest(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
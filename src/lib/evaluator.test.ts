@@ -0,0 +1,106 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { compileExpression, evaluate, scopeReads, type EvaluationScope } from "@/lib/evaluator";
+import { registerFilter } from "@/lib/filters";
+
+function scope(values: Record<string, any>): EvaluationScope {
+  return { form: {}, updateForm: () => {}, executeAction: async () => {}, isPublishing: false, ...values };
+}
+
+describe("evaluate", () => {
+  test("follows operator precedence", () => {
+    expect(evaluate("1 + 2 * 3", scope({}))).toBe(7);
+    expect(evaluate("(1 + 2) * 3", scope({}))).toBe(9);
+    expect(evaluate("10 - 4 - 3", scope({}))).toBe(3);
+    expect(evaluate("!a && b", scope({ a: false, b: "yes" }))).toBe("yes");
+    expect(evaluate("a || b && c", scope({ a: 0, b: 1, c: 2 }))).toBe(2);
+  });
+
+  test("pipes bind tighter than operators", () => {
+    const s = scope({ items: [1, 2, 3], name: "Hello World" });
+    expect(evaluate("items | length > 2", s)).toBe(true);
+    expect(evaluate("items | length + 1", s)).toBe(4);
+    expect(evaluate("name | truncate(5) == 'He...'", s)).toBe(true);
+  });
+
+  test("// takes the first value that isn't null, undefined or empty", () => {
+    const s = scope({ profile: { name: "", display_name: "Alice" }, zero: 0 });
+    expect(evaluate("profile.name // profile.display_name // 'Anon'", s)).toBe("Alice");
+    expect(evaluate("profile.missing // 'Anon'", s)).toBe("Anon");
+    expect(evaluate("zero // 5", s)).toBe(0);
+    expect(evaluate("profile.name // profile.missing", s)).toBeUndefined();
+  });
+
+  test("ternaries pick a branch and nest to the right", () => {
+    expect(evaluate("items | length > 0 ? 'Has posts' : 'Empty'", scope({ items: [] }))).toBe("Empty");
+    expect(evaluate("n > 10 ? 'big' : n > 5 ? 'medium' : 'small'", scope({ n: 7 }))).toBe("medium");
+    expect(evaluate("flag ?.5 : 1", scope({ flag: true }))).toBe(0.5);
+  });
+
+  test("property access is null-safe", () => {
+    const s = scope({ note: { tags: [["t", "nostr"]] } });
+    expect(evaluate("note.tags[0][1]", s)).toBe("nostr");
+    expect(evaluate("note.author.name", s)).toBeUndefined();
+    expect(evaluate("missing[0].x", s)).toBeUndefined();
+  });
+
+  test("works with or without surrounding braces", () => {
+    expect(evaluate("{index + 1}", scope({ index: 0 }))).toBe(1);
+  });
+});
+
+describe("parse errors", () => {
+  test("evaluate to undefined instead of throwing", () => {
+    expect(evaluate("note.content | truncate(", scope({ note: { content: "x" } }))).toBeUndefined();
+    expect(evaluate("a +", scope({ a: 1 }))).toBeUndefined();
+  });
+
+  test("don't affect other expressions", () => {
+    evaluate("a b c", scope({}));
+    expect(evaluate("a + 1", scope({ a: 1 }))).toBe(2);
+  });
+
+  test("compile once to a cached function", () => {
+    expect(compileExpression("broken (")).toBe(compileExpression("broken ("));
+  });
+
+  test("read nothing from the scope", () => {
+    expect(scopeReads("queries.events | (")).toEqual([]);
+  });
+});
+
+describe("scopeReads", () => {
+  test("returns paths at most two levels deep", () => {
+    expect(scopeReads("queries.events | length > index")).toEqual(["queries.events", "index"]);
+    expect(scopeReads("note.tags[0][1] // props.tag")).toEqual(["note.tags", "props.tag"]);
+  });
+
+  test("includes names read inside indexes and filter arguments", () => {
+    expect(scopeReads("queries.notes[state.page] | truncate(props.max)")).toEqual(["state.page", "queries.notes", "props.max"]);
+  });
+});
+
+describe("runtime errors", () => {
+  registerFilter({
+    name: "test_explode",
+    description: "Throws, for testing",
+    apply: () => {
+      throw new Error("boom");
+    },
+  });
+
+  test("evaluate to undefined and warn once per expression", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      for (let i = 0; i < 3; i++) {
+        expect(evaluate("item | test_explode", scope({ item: i }))).toBeUndefined();
+        expect(evaluate("item | no_such_filter(size=2)", scope({ item: i }))).toBe(i);
+      }
+      expect(warn.mock.calls.map((call) => call[0])).toEqual([
+        "[evaluate] item | test_explode: boom",
+        "Unknown filter: no_such_filter",
+      ]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -1,405 +1,313 @@
+import type { ReactNode } from "react";
+import { parseExpression, walkExpression, type BinaryOperator, type ExpressionNode } from "@/lib/expression";
+import { applyFilter } from "@/lib/filters";
+import type { ActionState } from "@/lib/actions";
+import type { ComponentImports } from "@/lib/imports";
+import { isTracing, trace, warnOnce } from "@/lib/trace";
+
+/** Value of a form field: text, a number (NumberInput, Slider, DateTimeInput as unix seconds), a checkbox state, or empty */
+export type FormValue = string | number | boolean | null;
+
+/** Form values by field name, plus the current validation errors under `$errors` */
+export type FormValues = Record<string, FormValue> & { $errors?: Record<string, string> };
+
 export interface EvaluationScope {
   props?: Record<string, any>;
   queries?: Record<string, any>;
   state?: Record<string, any>;
-  form: Record<string, string>;
+  form: FormValues;
   user?: string;
   // For <each> contexts
   item?: any;
   index?: number;
+  count?: number;
+  first?: boolean;
+  last?: boolean;
+  // Loop variables of the enclosing <each>, when nested
+  outer?: { index?: number; count?: number; first?: boolean; last?: boolean; outer?: EvaluationScope["outer"] };
   // Imported components (AST keyed by component name)
   components?: Record<string, any>;
+  // Resolved imports (status and nested imports of each imported component)
+  imports?: ComponentImports;
+  // Caller content for <Slot> inside an imported component, keyed by slot name
+  slots?: Record<string, ReactNode>;
+  // Results of the earlier steps of a running action pipeline
+  steps?: Record<string, any>;
+  // Declared actions by name
+  actions?: Record<string, ActionState>;
   // Form functions (used by builtins)
-  updateForm: (name: string, value: string) => void;
+  updateForm: (name: string, value: FormValue) => void;
   executeAction: (actionName: string) => Promise<void>;
   isPublishing: boolean;
 }
+/** A compiled expression, ready to run against any scope */
+export type CompiledExpression = (scope: EvaluationScope) => any;
+
+/** Most compiled expressions kept (the editor produces new sources on every keystroke) */
+const MAX_CACHED_EXPRESSIONS = 2000;
+
+const compiledCache = new Map<string, CompiledExpression>();
+
 /**
  * Evaluate an expression against a scope
+ * Each distinct source string is parsed and compiled once, then cached.
  *
  * @example
  * evaluate("note.content", { note: { content: "Hello" } }) // "Hello"
- * evaluate("note.content | truncate(10)", { note: { content: "Hello World" } }) // "Hello Worl"
+ * evaluate("note.content | truncate(10)", { note: { content: "Hello World" } }) // "Hello W..."
  * evaluate("profile.name // 'Anon'", { profile: {} }) // "Anon"
+ * evaluate("index + 1", { index: 0 }) // 1
+ * evaluate("items | length > 0 ? 'Has posts' : 'Empty'", { items: [] }) // "Empty"
  */
 export function evaluate(expression: string, scope: EvaluationScope): any {
-    if (!expression || typeof expression !== "string") {
-      return undefined;
-    }
-  
-    // Remove curly braces if present
-    const cleaned = expression.trim().replace(/^{|}$/g, "").trim();
-  
-    // Split by default operator (//)
-    const defaultParts = splitByDefault(cleaned);
-  
-    // Try each part until we get a truthy value
-    for (const part of defaultParts) {
-      const result = evaluatePart(part.trim(), scope);
-      if (result !== undefined && result !== null && result !== "") {
-        return result;
-      }
-    }
-  
+  if (!expression || typeof expression !== "string") {
     return undefined;
   }
-  
-  /**
-   * Split expression by // operator (not inside strings or function calls)
-   */
-  function splitByDefault(expr: string): string[] {
-    const parts: string[] = [];
-    let current = "";
-    let depth = 0;
-    let inString = false;
-    let stringChar = "";
-  
-    for (let i = 0; i < expr.length; i++) {
-      const char = expr[i];
-      const next = expr[i + 1];
-  
-      // Handle strings
-      if ((char === '"' || char === "'") && !inString) {
-        inString = true;
-        stringChar = char;
-        current += char;
-        continue;
-      }
-  
-      if (char === stringChar && inString) {
-        inString = false;
-        current += char;
-        continue;
-      }
-  
-      if (inString) {
-        current += char;
-        continue;
-      }
-  
-      // Handle depth (parentheses, brackets)
-      if (char === "(" || char === "[" || char === "{") {
-        depth++;
-      }
-      if (char === ")" || char === "]" || char === "}") {
-        depth--;
-      }
-  
-      // Split on // at depth 0
-      if (char === "/" && next === "/" && depth === 0) {
-        parts.push(current);
-        current = "";
-        i++; // Skip next /
-        continue;
-      }
-  
-      current += char;
+
+  const compiled = compileExpression(expression);
+  try {
+    return compiled(scope);
+  } catch (error) {
+    // Reported once: the same expression fails again on every render
+    warnOnce(`[evaluate] ${expression}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Compile an expression (with or without surrounding `{}`) into a function.
+ * Invalid expressions compile to a function returning undefined; the syntax
+ * error is reported once, not on every render.
+ */
+export function compileExpression(expression: string): CompiledExpression {
+  let compiled = compiledCache.get(expression);
+  if (compiled) return compiled;
+
+  // Remove curly braces if present
+  const cleaned = expression.trim().replace(/^{|}$/g, "").trim();
+  if (!cleaned) {
+    compiled = () => undefined;
+  } else {
+    try {
+      compiled = compileNode(parseExpression(cleaned));
+    } catch (error) {
+      console.warn(`[evaluate] ${cleaned}:`, error instanceof Error ? error.message : error);
+      compiled = () => undefined;
     }
-  
-    parts.push(current);
-    return parts.filter((p) => p.trim());
   }
-  
-  /**
-   * Evaluate a single part (without default operator)
-   */
-  function evaluatePart(expr: string, scope: EvaluationScope): any {
-    // Split by pipe operator
-    const pipeParts = splitByPipe(expr);
 
-    if (!pipeParts || pipeParts.length === 0 || !pipeParts[0]) {
-      return undefined;
+  if (compiledCache.size >= MAX_CACHED_EXPRESSIONS) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    compiledCache.delete(compiledCache.keys().next().value!);
+  }
+  compiledCache.set(expression, compiled);
+  return compiled;
+}
+
+/**
+ * Turn a parsed expression into a closure tree, so evaluation is just calls
+ */
+function compileNode(node: ExpressionNode): CompiledExpression {
+  switch (node.type) {
+    case "literal": {
+      const value = node.value;
+      return () => value;
     }
 
-    // Start with the first part (the value)
-    let value = resolveValue(pipeParts[0].trim(), scope);
-  
-    // Apply filters
-    for (let i = 1; i < pipeParts.length; i++) {
-        let item = pipeParts[i];
-        if (!item || !item.trim()) {
-          continue;
-        }
+    case "identifier": {
+      const name = node.name;
+      return (scope) => resolveIdentifier(name, scope);
+    }
 
-      const filterExpr = item.trim();
-      value = applyFilter(filterExpr, value, scope);
+    case "member": {
+      const object = compileNode(node.object);
+      const property = node.property;
+      // All property access is null-safe, `a.b` behaves like `a?.b`
+      return (scope) => {
+        const value = object(scope);
+        if (value === undefined || value === null) return undefined;
+        return value[property];
+      };
     }
-  
-    return value;
-  }
-  
-  /**
-   * Split expression by | operator (not inside strings or function calls)
-   */
-  function splitByPipe(expr: string): string[] {
-    const parts: string[] = [];
-    let current = "";
-    let depth = 0;
-    let inString = false;
-    let stringChar = "";
-  
-    for (let i = 0; i < expr.length; i++) {
-      const char = expr[i];
-  
-      // Handle strings
-      if ((char === '"' || char === "'") && !inString) {
-        inString = true;
-        stringChar = char;
-        current += char;
-        continue;
-      }
-  
-      if (char === stringChar && inString) {
-        inString = false;
-        current += char;
-        continue;
-      }
-  
-      if (inString) {
-        current += char;
-        continue;
-      }
-  
-      // Handle depth
-      if (char === "(" || char === "[" || char === "{") {
-        depth++;
-      }
-      if (char === ")" || char === "]" || char === "}") {
-        depth--;
-      }
-  
-      // Split on | at depth 0
-      if (char === "|" && depth === 0) {
-        parts.push(current);
-        current = "";
-        continue;
-      }
-  
-      current += char;
+
+    case "index": {
+      const object = compileNode(node.object);
+      const index = compileNode(node.index);
+      return (scope) => {
+        const value = object(scope);
+        if (value === undefined || value === null) return undefined;
+        const key = index(scope);
+        if (key === undefined || key === null) return undefined;
+        return value[key];
+      };
     }
-  
-    parts.push(current);
-    return parts.filter((p) => p.trim());
-  }
-  
-  /**
-   * Resolve a value from scope (e.g., "note.content", "queries.notes.[0]")
-   */
-  function resolveValue(path: string, scope: EvaluationScope): any {
-    // Handle literals
-    if (path.startsWith('"') || path.startsWith("'")) {
-      return path.slice(1, -1); // Remove quotes
+
+    case "unary": {
+      const argument = compileNode(node.argument);
+      return node.operator === "!" ? (scope) => !argument(scope) : (scope) => -argument(scope);
     }
-  
-    if (path.trim() === "true") return true;
-    if (path.trim() === "false") return false;
-    if (path.trim() === "null") return null;
-    if (path.trim() === "undefined") return undefined;
-  
-    // Try to parse as number
-    const num = Number(path);
-    if (!isNaN(num) && path.trim() !== "") {
-      return num;
+
+    case "binary": {
+      const { operator } = node;
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (scope) => applyBinary(operator, left(scope), right(scope));
     }
-  
-    // Resolve from scope
-    const parts = parsePath(path);
-    let current: any = scope;
-  
-    console.log("🔍 resolveValue - path:", path, "parts:", parts, "scope keys:", Object.keys(scope), "scope:", scope);
-  
-    for (const part of parts) {
-      console.log("  → stepping into part:", part, "current:", current, "current[part]:", current?.[part]);
-  
-      if (current === undefined || current === null) {
-        console.log("  ⚠️ current is null/undefined, stopping");
-        return undefined;
-      }
-  
-      if (typeof part === "number") {
-        // Array index
-        current = current[part];
-      } else {
-        // Property access
-        current = current[part];
+
+    case "logical": {
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      if (node.operator === "&&") {
+        return (scope) => {
+          const value = left(scope);
+          return value ? right(scope) : value;
+        };
       }
+      return (scope) => {
+        const value = left(scope);
+        return value ? value : right(scope);
+      };
     }
-  
-    console.log("  ✅ final result:", current);
-    return current;
-  }
-  
-  /**
-   * Parse a path string into parts
-   * "note.content" -> ["note", "content"]
-   * "queries.notes.[0]" -> ["queries", "notes", 0]
-   * "queries.event?.pubkey" -> ["queries", "event", "pubkey"] (strip optional chaining)
-   */
-  function parsePath(path: string): (string | number)[] {
-    // First, normalize optional chaining by removing all ? characters
-    // queries.event?.pubkey -> queries.event.pubkey
-    const normalized = path.replace(/\?/g, "");
-  
-    const parts: (string | number)[] = [];
-    let current = "";
-    let inBracket = false;
-  
-    for (let i = 0; i < normalized.length; i++) {
-      const char = normalized[i];
-  
-      if (char === ".") {
-        if (current) {
-          parts.push(current);
-          current = "";
-        }
-        continue;
-      }
-  
-      if (char === "[") {
-        if (current) {
-          parts.push(current);
-          current = "";
-        }
-        inBracket = true;
-        continue;
-      }
-  
-      if (char === "]") {
-        if (inBracket && current) {
-          const index = parseInt(current, 10);
-          if (!isNaN(index)) {
-            parts.push(index);
+
+    case "default": {
+      const options = node.options.map(compileNode);
+      // Try each option until we get a non-empty value
+      return (scope) => {
+        for (const option of options) {
+          const result = option(scope);
+          if (result !== undefined && result !== null && result !== "") {
+            return result;
           }
-          current = "";
         }
-        inBracket = false;
-        continue;
-      }
-  
-      current += char;
+        return undefined;
+      };
     }
-  
-    if (current) {
-      parts.push(current);
+
+    case "conditional": {
+      const test = compileNode(node.test);
+      const consequent = compileNode(node.consequent);
+      const alternate = compileNode(node.alternate);
+      return (scope) => (test(scope) ? consequent(scope) : alternate(scope));
     }
-  
-    return parts;
-  }
-  
-  /**
-   * Apply a filter to a value
-   */
-  function applyFilter(filterExpr: string, value: any, scope: EvaluationScope): any {
-    // Parse filter name and args
-    const parenIndex = filterExpr.indexOf("(");
-  
-    let filterName: string;
-    let argsStr: string | undefined;
-  
-    if (parenIndex === -1) {
-      // No arguments
-      filterName = filterExpr.trim();
-    } else {
-      // Has arguments
-      filterName = filterExpr.slice(0, parenIndex).trim();
-      const closeParenIndex = filterExpr.lastIndexOf(")");
-      argsStr = filterExpr.slice(parenIndex + 1, closeParenIndex).trim();
+
+    case "array": {
+      const items = node.items.map(compileNode);
+      return (scope) => items.map((item) => item(scope));
     }
-  
-    // Parse arguments
-    const args: any[] = [];
-    if (argsStr) {
-      // Simple argument parsing (comma-separated)
-      const argParts = argsStr.split(",").map((a) => a.trim());
-      for (const arg of argParts) {
-        args.push(resolveValue(arg, scope));
-      }
+
+    case "filter": {
+      const { name } = node;
+      const input = compileNode(node.input);
+      const args = node.args.map(compileNode);
+      const namedArgs = Object.entries(node.namedArgs).map(([argName, arg]) => [argName, compileNode(arg)] as const);
+      return (scope) => {
+        const named: Record<string, any> = {};
+        for (const [argName, arg] of namedArgs) {
+          named[argName] = arg(scope);
+        }
+        return applyFilter(name, input(scope), args.map((arg) => arg(scope)), named);
+      };
     }
-  
-    // Apply filter
-    return applyBuiltinFilter(filterName, value, args);
   }
-  
-  /**
-   * Built-in filters
-   */
-  function applyBuiltinFilter(name: string, value: any, args: any[]): any {
-    switch (name) {
-      case "first":
-        return Array.isArray(value) ? value[0] : value;
-  
-      case "last":
-        return Array.isArray(value) ? value[value.length - 1] : value;
-  
-      case "fromjson":
-        if (typeof value === "string") {
-          try {
-            return JSON.parse(value);
-          } catch {
-            return undefined;
-          }
-        }
-        return value;
-  
-      case "format_date": {
-        const timestamp = typeof value === "number" ? value : parseInt(value, 10);
-        if (isNaN(timestamp)) return value;
-  
-        const date = new Date(timestamp * 1000); // Nostr timestamps are in seconds
-        const format = args[0] || "datetime";
-  
-        if (format === "datetime") {
-          return date.toLocaleString();
-        } else if (format === "date") {
-          return date.toLocaleDateString();
-        } else if (format === "time") {
-          return date.toLocaleTimeString();
-        } else if (format === "relative") {
-          return formatRelativeTime(timestamp);
-        }
-  
-        return date.toLocaleString();
-      }
-  
-      case "truncate": {
-        const length = args[0] || 100;
-        if (typeof value !== "string") return value;
-        if (value.length <= length) return value;
-        return value.slice(0, length - 3) + "...";
-      }
-  
-      case "uppercase":
-        return typeof value === "string" ? value.toUpperCase() : value;
-  
-      case "lowercase":
-        return typeof value === "string" ? value.toLowerCase() : value;
-  
-      case "length":
-        if (Array.isArray(value)) return value.length;
-        if (typeof value === "string") return value.length;
-        return 0;
-  
-      default:
-        console.warn(`Unknown filter: ${name}`);
-        return value;
+}
+
+/**
+ * Scope paths an expression reads, at most two levels deep
+ * Used to tell whether a render depends on the parts of a scope that changed.
+ * Invalid expressions read nothing (they always evaluate to undefined).
+ *
+ * @example
+ * scopeReads("queries.events | length > index") // ["queries.events", "index"]
+ * scopeReads("note.tags[0][1] // props.tag") // ["note.tags", "props.tag"]
+ */
+export function scopeReads(expression: string): string[] {
+  const cleaned = expression.trim().replace(/^{|}$/g, "").trim();
+  if (!cleaned) return [];
+  let parsed: ExpressionNode;
+  try {
+    parsed = parseExpression(cleaned);
+  } catch {
+    return [];
+  }
+
+  const paths = new Set<string>();
+  // Accesses with a fixed name: `a.b` and `a["b"]`
+  const propertyOf = (node: ExpressionNode) =>
+    node.type === "member" ? node.property : node.type === "index" && node.index.type === "literal" ? node.index.value : undefined;
+
+  const visit = (node: ExpressionNode) => {
+    if (node.type === "identifier") {
+      paths.add(node.name);
+      return;
+    }
+    if (node.type !== "member" && node.type !== "index") return;
+
+    // Find the root of the chain, keeping the property right after it.
+    // Indexes along the way are expressions of their own
+    let object: ExpressionNode = node;
+    let property: string | number | boolean | null | undefined;
+    while (object.type === "member" || object.type === "index") {
+      if (object.type === "index") walkExpression(object.index, visit);
+      property = propertyOf(object);
+      object = object.object;
+    }
+    if (object.type !== "identifier") {
+      walkExpression(object, visit);
+      return false;
     }
+    // A property with a dot in it couldn't be told apart from a path, so depend on the root
+    const nested = property !== undefined && property !== null && !String(property).includes(".");
+    paths.add(nested ? `${object.name}.${property}` : object.name);
+    return false;
+  };
+
+  walkExpression(parsed, visit);
+  return [...paths];
+}
+
+/**
+ * Resolve a root name from scope (e.g., "queries", "note", "index")
+ */
+function resolveIdentifier(name: string, scope: EvaluationScope): any {
+  const value = (scope as Record<string, any>)[name];
+  if (isTracing()) {
+    trace("🔍 resolveIdentifier - name:", name, "scope keys:", Object.keys(scope), "result:", value);
   }
-  
-  /**
-   * Format a timestamp as relative time (e.g., "2 hours ago")
-   */
-  function formatRelativeTime(timestamp: number): string {
-    const now = Math.floor(Date.now() / 1000);
-    const diff = now - timestamp;
-  
-    if (diff < 60) return "just now";
-    if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
-    if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
-    if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
-    return `${Math.floor(diff / 604800)}w ago`;
+  return value;
+}
+
+/**
+ * Arithmetic and comparison operators.
+ * `==` / `!=` use loose equality so attribute strings compare with numbers ("5" == 5).
+ */
+function applyBinary(operator: BinaryOperator, left: any, right: any): any {
+  switch (operator) {
+    case "==":
+      return left == right;
+    case "!=":
+      return left != right;
+    case "<":
+      return left < right;
+    case ">":
+      return left > right;
+    case "<=":
+      return left <= right;
+    case ">=":
+      return left >= right;
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    case "%":
+      return left % right;
   }
+}
 
-  /**
+/**
  * Parse JSX attributes and evaluate expressions
  */
 export function parseAttributes(attributes: any[], scope: EvaluationScope): Record<string, any> {
@@ -425,7 +333,7 @@ export function parseAttributes(attributes: any[], scope: EvaluationScope): Reco
         // Expression like from={queries.notes}
         try {
           const evaluated = evaluate(value, scope);
-          console.log(`📊 parseAttributes - ${name}={${value}} -> `, evaluated, "scope.queries:", scope.queries);
+          trace(`📊 parseAttributes - ${name}={${value}} -> `, evaluated, "scope.queries:", scope.queries);
           result[name] = evaluated;
         } catch (error) {
           console.warn(`[parseAttributes] Failed to evaluate ${name}={${value}}:`, error);
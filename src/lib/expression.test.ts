@@ -0,0 +1,171 @@
+import { describe, expect, test } from "bun:test";
+import { parseExpression, tokenize, walkExpression, type ExpressionNode } from "@/lib/expression";
+
+const id = (name: string): ExpressionNode => ({ type: "identifier", name });
+const lit = (value: string | number | boolean | null | undefined): ExpressionNode => ({ type: "literal", value });
+
+describe("tokenize", () => {
+  test("prefers the longest operator", () => {
+    expect(tokenize("a // b <= c").map((t) => t.value)).toEqual(["a", "//", "b", "<=", "c", ""]);
+  });
+
+  test("keeps path segments after a dot as integers", () => {
+    expect(tokenize("items.0.name").map((t) => t.value)).toEqual(["items", ".", "0", ".", "name", ""]);
+    expect(tokenize("0.5 + 1").map((t) => t.value)).toEqual(["0.5", "+", "1", ""]);
+  });
+
+  test("reads quoted strings with escapes", () => {
+    expect(tokenize(`"say \\"hi\\"" + 'x'`).filter((t) => t.type === "string").map((t) => t.value)).toEqual([
+      'say "hi"',
+      "x",
+    ]);
+  });
+});
+
+describe("parseExpression precedence", () => {
+  test("multiplication binds tighter than addition", () => {
+    expect(parseExpression("a + b * c")).toEqual({
+      type: "binary",
+      operator: "+",
+      left: id("a"),
+      right: { type: "binary", operator: "*", left: id("b"), right: id("c") },
+    });
+  });
+
+  test("comparison binds tighter than && and && tighter than ||", () => {
+    expect(parseExpression("a || b && c > 1")).toEqual({
+      type: "logical",
+      operator: "||",
+      left: id("a"),
+      right: {
+        type: "logical",
+        operator: "&&",
+        left: id("b"),
+        right: { type: "binary", operator: ">", left: id("c"), right: lit(1) },
+      },
+    });
+  });
+
+  test("binary operators are left associative", () => {
+    expect(parseExpression("a - b - c")).toEqual({
+      type: "binary",
+      operator: "-",
+      left: { type: "binary", operator: "-", left: id("a"), right: id("b") },
+      right: id("c"),
+    });
+  });
+
+  test("parentheses override precedence", () => {
+    expect(parseExpression("(a + b) * c")).toEqual({
+      type: "binary",
+      operator: "*",
+      left: { type: "binary", operator: "+", left: id("a"), right: id("b") },
+      right: id("c"),
+    });
+  });
+
+  test("unary operators apply to the piped value", () => {
+    expect(parseExpression("!items | length")).toEqual({
+      type: "unary",
+      operator: "!",
+      argument: { type: "filter", input: id("items"), name: "length", args: [], namedArgs: {} },
+    });
+  });
+});
+
+describe("parseExpression pipes", () => {
+  test("bind tighter than comparison", () => {
+    expect(parseExpression("items | length > 0")).toEqual({
+      type: "binary",
+      operator: ">",
+      left: { type: "filter", input: id("items"), name: "length", args: [], namedArgs: {} },
+      right: lit(0),
+    });
+  });
+
+  test("chain left to right", () => {
+    const node = parseExpression("a | first | truncate(10)");
+    expect(node).toMatchObject({ type: "filter", name: "truncate", args: [lit(10)], input: { type: "filter", name: "first" } });
+  });
+
+  test("take full expressions and named arguments", () => {
+    expect(parseExpression('at | format_date(props.style // "short", zone="UTC")')).toEqual({
+      type: "filter",
+      input: id("at"),
+      name: "format_date",
+      args: [{ type: "default", options: [{ type: "member", object: id("props"), property: "style" }, lit("short")] }],
+      namedArgs: { zone: lit("UTC") },
+    });
+  });
+
+  test("reject a positional argument after a named one", () => {
+    expect(() => parseExpression("a | f(x=1, 2)")).toThrow("Positional argument after named argument at position 11");
+  });
+});
+
+describe("parseExpression defaults and ternaries", () => {
+  test("// collects every option into one node", () => {
+    expect(parseExpression("a // b // 'c'")).toEqual({ type: "default", options: [id("a"), id("b"), lit("c")] });
+  });
+
+  test("// binds looser than ||", () => {
+    expect(parseExpression("a || b // c")).toEqual({
+      type: "default",
+      options: [{ type: "logical", operator: "||", left: id("a"), right: id("b") }, id("c")],
+    });
+  });
+
+  test("ternaries bind loosest and nest to the right", () => {
+    expect(parseExpression("a ? b : c ? d : e // f")).toEqual({
+      type: "conditional",
+      test: id("a"),
+      consequent: id("b"),
+      alternate: {
+        type: "conditional",
+        test: id("c"),
+        consequent: id("d"),
+        alternate: { type: "default", options: [id("e"), id("f")] },
+      },
+    });
+  });
+
+  test("?. followed by a digit is a ternary, not optional chaining", () => {
+    expect(parseExpression("a ?.5 : 1")).toEqual({ type: "conditional", test: id("a"), consequent: lit(0.5), alternate: lit(1) });
+    expect(parseExpression("a?.b")).toEqual({ type: "member", object: id("a"), property: "b" });
+  });
+});
+
+describe("parseExpression errors", () => {
+  test.each([
+    ["a +", "Unexpected end of expression"],
+    ["a b", 'Unexpected "b" at position 2'],
+    ["f(a", 'Unexpected "(" at position 1'],
+    ["a | truncate(1", 'Expected ")" but found end of expression at position 14'],
+    ["a ? b", 'Expected ":" but found end of expression at position 5'],
+    ["a.", "Expected property name at position 2"],
+    ["a | 5", "Expected filter name at position 4"],
+    ["'open", "Unterminated string at position 0"],
+    ["a # b", 'Unexpected character "#" at position 2'],
+  ])("%p", (source, message) => {
+    expect(() => parseExpression(source)).toThrow(message);
+  });
+});
+
+describe("walkExpression", () => {
+  test("visits parents before children", () => {
+    const types: string[] = [];
+    walkExpression(parseExpression("a.b[c] | f(d, e=1) ? [g] : !h"), (node) => {
+      types.push(node.type === "identifier" ? node.name : node.type);
+    });
+    expect(types).toEqual(["conditional", "filter", "index", "member", "a", "c", "d", "literal", "array", "g", "unary", "h"]);
+  });
+
+  test("skips the children of a node when the visitor returns false", () => {
+    const names: string[] = [];
+    walkExpression(parseExpression("queries.notes[index] + total"), (node) => {
+      if (node.type === "index") return false;
+      if (node.type === "identifier") names.push(node.name);
+    });
+    expect(names).toEqual(["total"]);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Hypernote expression language
+ *
+ * Tokenizer + recursive descent parser that turns the source inside `{...}`
+ * into an expression AST. Evaluation lives in `evaluator.ts`.
+ *
+ * Precedence (lowest to highest):
+ *   cond ? a : b
+ *   a // b            (default: first value that isn't null/undefined/"")
+ *   a || b
+ *   a && b
+ *   a == b, a != b
+ *   a < b, a > b, a <= b, a >= b
+ *   a + b, a - b
+ *   a * b, a / b, a % b
+ *   !a, -a
+ *   a | filter(args)  (pipes bind tighter than operators)
+ *   a.b, a?.b, a[0], a.[0], (expr), [a, b], literals
+ *
+ * Filter arguments are full expressions and may be named:
+ *   note.content | truncate(props.max // 50)
+ *   created_at | format_date(format="relative")
+ *
+ * @example
+ * parseExpression('queries.events | length > 0 ? "Has posts" : "Empty"')
+ */
+
+// =============================================================================
+// AST
+// =============================================================================
+
+export type ExpressionNode =
+  | { type: "literal"; value: string | number | boolean | null | undefined }
+  | { type: "identifier"; name: string }
+  | { type: "member"; object: ExpressionNode; property: string | number }
+  | { type: "index"; object: ExpressionNode; index: ExpressionNode }
+  | { type: "unary"; operator: "!" | "-"; argument: ExpressionNode }
+  | { type: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode }
+  | { type: "default"; options: ExpressionNode[] }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: "array"; items: ExpressionNode[] }
+  | {
+      type: "filter";
+      input: ExpressionNode;
+      name: string;
+      args: ExpressionNode[];
+      /** Arguments passed by name, e.g. `format_date(format="relative")` */
+      namedArgs: Record<string, ExpressionNode>;
+    };
+
+export type BinaryOperator =
+  | "==" | "!="
+  | "<" | ">" | "<=" | ">="
+  | "+" | "-" | "*" | "/" | "%";
+
+/**
+ * Call `visit` on a node and everything below it, parents before children
+ * Return false from `visit` to skip a node's children.
+ *
+ * @example
+ * const names: string[] = [];
+ * walkExpression(parseExpression("a.b + c"), (node) => {
+ *   if (node.type === "identifier") names.push(node.name);
+ * });
+ * // names: ["a", "c"]
+ */
+export function walkExpression(node: ExpressionNode, visit: (node: ExpressionNode) => boolean | void): void {
+  if (visit(node) === false) return;
+  for (const child of childNodes(node)) walkExpression(child, visit);
+}
+
+function childNodes(node: ExpressionNode): ExpressionNode[] {
+  switch (node.type) {
+    case "literal":
+    case "identifier":
+      return [];
+    case "member":
+      return [node.object];
+    case "index":
+      return [node.object, node.index];
+    case "unary":
+      return [node.argument];
+    case "binary":
+    case "logical":
+      return [node.left, node.right];
+    case "default":
+      return node.options;
+    case "conditional":
+      return [node.test, node.consequent, node.alternate];
+    case "array":
+      return node.items;
+    case "filter":
+      return [node.input, ...node.args, ...Object.values(node.namedArgs)];
+  }
+}
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** Offset of the token in the expression source */
+  start: number;
+}
+
+// Longest operators first so "//" wins over "/" and "<=" over "<"
+const OPERATORS = [
+  "//", "==", "!=", "<=", ">=", "&&", "||", "?.",
+  "<", ">", "=", "+", "-", "*", "/", "%", "!", "?", ":",
+  "|", ".", ",", "(", ")", "[", "]",
+];
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Strings (single or double quoted, backslash escapes)
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new Error(`Unterminated string at position ${start}`);
+      }
+      i++; // closing quote
+      tokens.push({ type: "string", value, start });
+      continue;
+    }
+
+    // Numbers. Right after a "." only take the integer part so that
+    // "items.0.name" is [items, ., 0, ., name] rather than [items, ., 0.1]
+    if (/[0-9]/.test(char)) {
+      const start = i;
+      const afterDot = tokens[tokens.length - 1]?.value === ".";
+      while (i < source.length && /[0-9]/.test(source[i]!)) i++;
+      if (!afterDot && source[i] === "." && /[0-9]/.test(source[i + 1] ?? "")) {
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i]!)) i++;
+      }
+      tokens.push({ type: "number", value: source.slice(start, i), start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9_$]/.test(source[i]!)) i++;
+      tokens.push({ type: "identifier", value: source.slice(start, i), start });
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      // "?." followed by a digit is a ternary on a number, e.g. `a ?.5 : 1`
+      if (operator === "?." && /[0-9]/.test(source[i + 2] ?? "")) {
+        tokens.push({ type: "operator", value: "?", start: i });
+        const start = ++i;
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i]!)) i++;
+        tokens.push({ type: "number", value: source.slice(start, i), start });
+        continue;
+      }
+      tokens.push({ type: "operator", value: operator, start: i });
+      i += operator.length;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}" at position ${i}`);
+  }
+
+  tokens.push({ type: "eof", value: "", start: source.length });
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Parse an expression string into an AST.
+ * Throws an Error describing the problem (with position) on invalid syntax.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const parser = new Parser(tokenize(source));
+  const node = parser.parseExpression();
+  parser.expectEnd();
+  return node;
+}
+
+const LITERAL_KEYWORDS: Record<string, ExpressionNode> = {
+  true: { type: "literal", value: true },
+  false: { type: "literal", value: false },
+  null: { type: "literal", value: null },
+  undefined: { type: "literal", value: undefined },
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): ExpressionNode {
+    return this.parseConditional();
+  }
+
+  expectEnd() {
+    const token = this.peek();
+    if (token.type !== "eof") {
+      throw new Error(`Unexpected "${token.value}" at position ${token.start}`);
+    }
+  }
+
+  // cond ? a : b (right associative)
+  private parseConditional(): ExpressionNode {
+    const test = this.parseDefault();
+    if (!this.match("?")) return test;
+    const consequent = this.parseConditional();
+    this.expect(":");
+    const alternate = this.parseConditional();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  // a // b // c
+  private parseDefault(): ExpressionNode {
+    const first = this.parseOr();
+    if (!this.check("//")) return first;
+    const options = [first];
+    while (this.match("//")) {
+      options.push(this.parseOr());
+    }
+    return { type: "default", options };
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.match("||")) {
+      left = { type: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseEquality();
+    while (this.match("&&")) {
+      left = { type: "logical", operator: "&&", left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ExpressionNode {
+    return this.parseBinary(["==", "!="], () => this.parseRelational());
+  }
+
+  private parseRelational(): ExpressionNode {
+    return this.parseBinary(["<", ">", "<=", ">="], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): ExpressionNode {
+    return this.parseBinary(["+", "-"], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    return this.parseBinary(["*", "/", "%"], () => this.parseUnary());
+  }
+
+  private parseBinary(operators: BinaryOperator[], next: () => ExpressionNode): ExpressionNode {
+    let left = next();
+    while (true) {
+      const operator = operators.find((op) => this.check(op));
+      if (!operator) return left;
+      this.pos++;
+      left = { type: "binary", operator, left, right: next() };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.match("!")) {
+      return { type: "unary", operator: "!", argument: this.parseUnary() };
+    }
+    if (this.match("-")) {
+      return { type: "unary", operator: "-", argument: this.parseUnary() };
+    }
+    return this.parsePipe();
+  }
+
+  // value | filter | filter(arg, arg) | filter(arg, name=arg)
+  private parsePipe(): ExpressionNode {
+    let input = this.parsePostfix();
+    while (this.match("|")) {
+      const name = this.expectIdentifier();
+      const args: ExpressionNode[] = [];
+      const namedArgs: Record<string, ExpressionNode> = {};
+      if (this.match("(")) {
+        if (!this.check(")")) {
+          do {
+            const token = this.peek();
+            const next = this.tokens[this.pos + 1];
+            if (token.type === "identifier" && next?.type === "operator" && next.value === "=") {
+              this.pos += 2;
+              namedArgs[token.value] = this.parseExpression();
+            } else if (Object.keys(namedArgs).length > 0) {
+              throw new Error(`Positional argument after named argument at position ${token.start}`);
+            } else {
+              args.push(this.parseExpression());
+            }
+          } while (this.match(","));
+        }
+        this.expect(")");
+      }
+      input = { type: "filter", input, name, args, namedArgs };
+    }
+    return input;
+  }
+
+  // a.b, a?.b, a[expr], a.[0], a.0
+  private parsePostfix(): ExpressionNode {
+    let object = this.parsePrimary();
+    while (true) {
+      if (this.match(".") || this.match("?.")) {
+        const token = this.peek();
+        if (token.type === "identifier") {
+          this.pos++;
+          object = { type: "member", object, property: token.value };
+        } else if (token.type === "number") {
+          this.pos++;
+          object = { type: "member", object, property: parseInt(token.value, 10) };
+        } else if (this.match("[")) {
+          object = this.finishIndex(object);
+        } else {
+          throw new Error(`Expected property name at position ${token.start}`);
+        }
+      } else if (this.match("[")) {
+        object = this.finishIndex(object);
+      } else {
+        return object;
+      }
+    }
+  }
+
+  private finishIndex(object: ExpressionNode): ExpressionNode {
+    const index = this.parseExpression();
+    this.expect("]");
+    return { type: "index", object, index };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "number":
+        this.pos++;
+        return { type: "literal", value: Number(token.value) };
+      case "string":
+        this.pos++;
+        return { type: "literal", value: token.value };
+      case "identifier":
+        this.pos++;
+        return LITERAL_KEYWORDS[token.value] ?? { type: "identifier", name: token.value };
+      case "operator":
+        if (this.match("(")) {
+          const inner = this.parseExpression();
+          this.expect(")");
+          return inner;
+        }
+        if (this.match("[")) {
+          const items: ExpressionNode[] = [];
+          if (!this.check("]")) {
+            do {
+              items.push(this.parseExpression());
+            } while (this.match(","));
+          }
+          this.expect("]");
+          return { type: "array", items };
+        }
+        throw new Error(`Unexpected "${token.value}" at position ${token.start}`);
+      case "eof":
+        throw new Error("Unexpected end of expression");
+    }
+  }
+
+  // --- token helpers ---
+
+  private peek(): Token {
+    return this.tokens[this.pos]!;
+  }
+
+  private check(operator: string): boolean {
+    const token = this.peek();
+    return token.type === "operator" && token.value === operator;
+  }
+
+  private match(operator: string): boolean {
+    if (!this.check(operator)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(operator: string) {
+    if (!this.match(operator)) {
+      const token = this.peek();
+      const found = token.type === "eof" ? "end of expression" : `"${token.value}"`;
+      throw new Error(`Expected "${operator}" but found ${found} at position ${token.start}`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== "identifier") {
+      throw new Error(`Expected filter name at position ${token.start}`);
+    }
+    this.pos++;
+    return token.value;
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { applyFilter } from "@/lib/filters";
+
+describe("min and max", () => {
+  test("of a list or of a field", () => {
+    const events = [{ created_at: 30 }, { created_at: 10 }, { created_at: "20" }, {}];
+    expect(applyFilter("min", events, ["created_at"])).toBe(10);
+    expect(applyFilter("max", events, ["created_at"])).toBe(30);
+    expect(applyFilter("min", [], [])).toBeUndefined();
+  });
+
+  test("handle lists too long to spread into a call", () => {
+    const values = Array.from({ length: 1_000_000 }, (_, i) => (i * 7919) % 1_000_000);
+    expect(applyFilter("min", values, [])).toBe(0);
+    expect(applyFilter("max", values, [])).toBe(999_999);
+  });
+});
+
+describe("sort", () => {
+  test("keeps items missing the key last in either direction", () => {
+    const items = [{ n: 2 }, {}, { n: 1 }, { n: 3 }];
+    expect(applyFilter("sort", items, ["n"]).map((item: any) => item.n)).toEqual([1, 2, 3, undefined]);
+    expect(applyFilter("sort", items, ["n", "desc"]).map((item: any) => item.n)).toEqual([3, 2, 1, undefined]);
+  });
+});
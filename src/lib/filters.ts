@@ -0,0 +1,549 @@
+/**
+ * Filter registry
+ *
+ * Filters transform a value in an expression pipeline:
+ *
+ *   {note.content | truncate(100) | uppercase}
+ *
+ * Every filter declares its name, arguments and documentation so the editor
+ * can offer autocomplete and docs. Host apps can add their own:
+ *
+ *   registerFilter({
+ *     name: "sats",
+ *     description: "Format a msat amount as sats",
+ *     apply: (value) => `${Math.floor(Number(value) / 1000)} sats`,
+ *   });
+ */
+
+import { getSeenRelays } from "applesauce-core/helpers";
+import { walkExpression, type ExpressionNode } from "@/lib/expression";
+import { encodeNaddr, encodeNevent, encodeNpub, shortenKey } from "@/lib/nip19";
+import { warnOnce } from "@/lib/trace";
+
+export type FilterArgType = "string" | "number" | "boolean" | "array" | "object" | "any";
+
+export interface FilterArg {
+  name: string;
+  type: FilterArgType;
+  /** Used when the argument is omitted (optional arguments only) */
+  default?: any;
+  optional?: boolean;
+  description?: string;
+}
+
+export interface FilterDefinition {
+  name: string;
+  /** One-line summary shown in the editor */
+  description: string;
+  args?: FilterArg[];
+  /** Example expression, e.g. `created_at | format_date("relative")` */
+  example?: string;
+  /** Transform `value`; missing optional args are filled with their defaults */
+  apply: (value: any, ...args: any[]) => any;
+}
+
+const registry = new Map<string, FilterDefinition>();
+
+/**
+ * Add a filter, replacing any existing filter with the same name
+ */
+export function registerFilter(definition: FilterDefinition) {
+  if (registry.has(definition.name)) {
+    console.warn(`[filters] Replacing filter: ${definition.name}`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function getFilter(name: string): FilterDefinition | undefined {
+  return registry.get(name);
+}
+
+/** All registered filters, sorted by name */
+export function listFilters(): FilterDefinition[] {
+  return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Apply a filter by name. Unknown filters pass the value through unchanged.
+ * Named arguments are matched to the filter's declared args by name.
+ *
+ * @example
+ * applyFilter("format_date", 1700000000, [], { format: "relative" })
+ */
+export function applyFilter(
+  name: string,
+  value: any,
+  args: any[],
+  namedArgs: Record<string, any> = {}
+): any {
+  const filter = registry.get(name);
+  if (!filter) {
+    warnOnce(`Unknown filter: ${name}`);
+    return value;
+  }
+
+  const declared = filter.args ?? [];
+  for (const argName of Object.keys(namedArgs)) {
+    if (!declared.some((arg) => arg.name === argName)) {
+      warnOnce(`[${name}] Unknown argument: ${argName}`);
+    }
+  }
+
+  const resolved = declared.map((arg, i) => {
+    const given = arg.name in namedArgs ? namedArgs[arg.name] : args[i];
+    return given === undefined ? arg.default : given;
+  });
+  // Extra arguments are passed through for filters that take a variable number
+  return filter.apply(value, ...resolved, ...args.slice(resolved.length));
+}
+
+/**
+ * Human readable signature of a filter
+ *
+ * @example
+ * formatFilterSignature(getFilter("truncate")!) // "truncate(length?: number = 100)"
+ */
+export function formatFilterSignature(filter: FilterDefinition): string {
+  if (!filter.args?.length) return filter.name;
+
+  const args = filter.args.map((arg) => {
+    let text = `${arg.name}${arg.optional ? "?" : ""}: ${arg.type}`;
+    if (arg.default !== undefined) text += ` = ${JSON.stringify(arg.default)}`;
+    return text;
+  });
+  return `${filter.name}(${args.join(", ")})`;
+}
+
+/**
+ * Names of the filters used in an expression
+ *
+ * @example
+ * collectFilterNames(parseExpression("a | first | truncate(10)")) // ["truncate", "first"]
+ */
+export function collectFilterNames(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  walkExpression(node, (node) => {
+    if (node.type === "filter") names.add(node.name);
+  });
+  return [...names];
+}
+
+// =============================================================================
+// BUILT-IN FILTERS
+// =============================================================================
+
+registerFilter({
+  name: "first",
+  description: "First item of a list",
+  example: "queries.events | first",
+  apply: (value) => (Array.isArray(value) ? value[0] : value),
+});
+
+registerFilter({
+  name: "last",
+  description: "Last item of a list",
+  example: "queries.events | last",
+  apply: (value) => (Array.isArray(value) ? value[value.length - 1] : value),
+});
+
+registerFilter({
+  name: "fromjson",
+  description: "Parse a JSON string (undefined if invalid)",
+  example: "event.content | fromjson",
+  apply: (value) => {
+    if (typeof value === "string") {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    }
+    return value;
+  },
+});
+
+registerFilter({
+  name: "format_date",
+  description: "Format a unix timestamp (seconds)",
+  args: [
+    {
+      name: "format",
+      type: "string",
+      optional: true,
+      default: "datetime",
+      description: "datetime, date, time or relative",
+    },
+  ],
+  example: 'note.created_at | format_date("relative")',
+  apply: (value, format) => {
+    const timestamp = typeof value === "number" ? value : parseInt(value, 10);
+    if (isNaN(timestamp)) return value;
+
+    const date = new Date(timestamp * 1000); // Nostr timestamps are in seconds
+
+    if (format === "datetime") {
+      return date.toLocaleString();
+    } else if (format === "date") {
+      return date.toLocaleDateString();
+    } else if (format === "time") {
+      return date.toLocaleTimeString();
+    } else if (format === "relative") {
+      return formatRelativeTime(timestamp);
+    }
+
+    return date.toLocaleString();
+  },
+});
+
+registerFilter({
+  name: "truncate",
+  description: "Shorten text to a maximum length, ending with ...",
+  args: [{ name: "length", type: "number", optional: true, default: 100 }],
+  example: "note.content | truncate(140)",
+  apply: (value, length) => {
+    if (typeof value !== "string") return value;
+    if (value.length <= length) return value;
+    return value.slice(0, length - 3) + "...";
+  },
+});
+
+registerFilter({
+  name: "uppercase",
+  description: "Convert text to upper case",
+  apply: (value) => (typeof value === "string" ? value.toUpperCase() : value),
+});
+
+registerFilter({
+  name: "lowercase",
+  description: "Convert text to lower case",
+  apply: (value) => (typeof value === "string" ? value.toLowerCase() : value),
+});
+
+registerFilter({
+  name: "length",
+  description: "Number of items in a list or characters in text (0 otherwise)",
+  example: "queries.events | length",
+  apply: (value) => {
+    if (Array.isArray(value)) return value.length;
+    if (typeof value === "string") return value.length;
+    return 0;
+  },
+});
+
+registerFilter({
+  name: "relays",
+  description: "Relays an event was received from",
+  example: "note | relays | length",
+  apply: (value) => {
+    const seen = value && typeof value === "object" ? getSeenRelays(value) : undefined;
+    return seen ? [...seen] : [];
+  },
+});
+
+// Collections - like first/last, non-list input passes through (sum counts it as 0)
+
+registerFilter({
+  name: "sort",
+  description: "Sort a list, optionally by a field",
+  args: [
+    { name: "key", type: "string", optional: true, description: "Field path, e.g. created_at" },
+    { name: "direction", type: "string", optional: true, default: "asc", description: "asc or desc" },
+  ],
+  example: 'queries.events | sort("created_at", "desc")',
+  apply: (value, key, direction) => {
+    if (!Array.isArray(value)) return value;
+    const sign = direction === "desc" ? -1 : 1;
+    return [...value].sort((a, b) => compareValues(getPath(a, key), getPath(b, key), sign));
+  },
+});
+
+registerFilter({
+  name: "where",
+  description: "Items whose field equals a value (or is truthy if no value is given)",
+  args: [
+    { name: "key", type: "string", description: "Field path" },
+    { name: "value", type: "any", optional: true },
+  ],
+  example: 'queries.events | where("kind", 1)',
+  apply: (value, key, expected) => {
+    if (!Array.isArray(value)) return value;
+    return value.filter((item) => {
+      const field = getPath(item, key);
+      return expected === undefined ? Boolean(field) : field == expected;
+    });
+  },
+});
+
+registerFilter({
+  name: "pluck",
+  description: "A field from every item",
+  args: [{ name: "key", type: "string", description: "Field path" }],
+  example: 'queries.events | pluck("pubkey")',
+  apply: (value, key) => (Array.isArray(value) ? value.map((item) => getPath(item, key)) : value),
+});
+
+registerFilter({
+  name: "unique",
+  description: "Drop duplicate items, optionally comparing a field",
+  args: [{ name: "key", type: "string", optional: true, description: "Field path" }],
+  example: 'queries.events | pluck("pubkey") | unique',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return value;
+    const seen = new Set();
+    return value.filter((item) => {
+      const id = getPath(item, key);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+  },
+});
+
+registerFilter({
+  name: "slice",
+  description: "Part of a list (or text) from start up to, not including, end",
+  args: [
+    { name: "start", type: "number", optional: true, default: 0 },
+    { name: "end", type: "number", optional: true },
+  ],
+  example: "queries.events | slice(0, 5)",
+  apply: (value, start, end) =>
+    Array.isArray(value) || typeof value === "string" ? value.slice(start, end) : value,
+});
+
+registerFilter({
+  name: "join",
+  description: "Join a list into text",
+  args: [{ name: "separator", type: "string", optional: true, default: ", " }],
+  example: 'note | tags("t") | join(", ")',
+  apply: (value, separator) => (Array.isArray(value) ? value.join(separator) : value),
+});
+
+registerFilter({
+  name: "group_by",
+  description: "Group items by a field, as a list of { key, items } in first-seen order",
+  args: [{ name: "key", type: "string", description: "Field path" }],
+  example: 'queries.events | group_by("pubkey")',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return value;
+    const groups = new Map<any, any[]>();
+    for (const item of value) {
+      const group = getPath(item, key);
+      const items = groups.get(group) ?? [];
+      items.push(item);
+      groups.set(group, items);
+    }
+    return [...groups].map(([key, items]) => ({ key, items }));
+  },
+});
+
+registerFilter({
+  name: "count_by",
+  description: "Count items per field value, as a list of { key, count } with the most common first",
+  args: [{ name: "key", type: "string", description: "Field path" }],
+  example: 'queries.events | count_by("pubkey") | slice(0, 10)',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return value;
+    const counts = new Map<any, number>();
+    for (const item of value) {
+      const group = getPath(item, key);
+      counts.set(group, (counts.get(group) ?? 0) + 1);
+    }
+    return [...counts].map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+  },
+});
+
+registerFilter({
+  name: "sum",
+  description: "Total of a list of numbers, optionally of a field",
+  args: [{ name: "key", type: "string", optional: true, description: "Field path" }],
+  example: 'queries.zaps | pluck("amount") | sum',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return 0;
+    return numbers(value, key).reduce((total, n) => total + n, 0);
+  },
+});
+
+registerFilter({
+  name: "min",
+  description: "Smallest number in a list, optionally of a field",
+  args: [{ name: "key", type: "string", optional: true, description: "Field path" }],
+  example: 'queries.events | min("created_at")',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return value;
+    const values = numbers(value, key);
+    // reduce rather than Math.min(...values), which overflows the stack on long timelines
+    return values.length > 0 ? values.reduce((least, n) => (n < least ? n : least)) : undefined;
+  },
+});
+
+registerFilter({
+  name: "max",
+  description: "Largest number in a list, optionally of a field",
+  args: [{ name: "key", type: "string", optional: true, description: "Field path" }],
+  example: 'queries.events | max("created_at")',
+  apply: (value, key) => {
+    if (!Array.isArray(value)) return value;
+    const values = numbers(value, key);
+    return values.length > 0 ? values.reduce((most, n) => (n > most ? n : most)) : undefined;
+  },
+});
+
+// Nostr - null/invalid input gives undefined, so `// fallback` works
+
+registerFilter({
+  name: "tag",
+  description: "First value of an event's tag",
+  args: [
+    { name: "name", type: "string", description: "Tag name, e.g. title or d" },
+    { name: "index", type: "number", optional: true, default: 1, description: "Position in the tag" },
+  ],
+  example: 'note | tag("title") // "Untitled"',
+  apply: (value, name, index) => getTags(value).find((t) => t[0] === name)?.[index],
+});
+
+registerFilter({
+  name: "tags",
+  description: "Every value of an event's tags with a name",
+  args: [
+    { name: "name", type: "string", description: "Tag name, e.g. t or p" },
+    { name: "index", type: "number", optional: true, default: 1, description: "Position in the tag" },
+  ],
+  example: 'note | tags("t")',
+  apply: (value, name, index) =>
+    getTags(value)
+      .filter((t) => t[0] === name && t[index] !== undefined)
+      .map((t) => t[index]),
+});
+
+registerFilter({
+  name: "npub",
+  description: "Encode a pubkey (or an event's author) as npub",
+  example: "note.pubkey | npub",
+  apply: (value) => tryEncode(() => encodeNpub(toPubkey(value))),
+});
+
+registerFilter({
+  name: "nevent",
+  description: "Encode an event (or event id) as nevent, with the relays it was seen on",
+  example: "note | nevent",
+  apply: (value) =>
+    tryEncode(() => (typeof value === "string" ? encodeNevent(value) : encodeNevent(value, seenRelays(value)))),
+});
+
+registerFilter({
+  name: "naddr",
+  description: "Encode an addressable event as naddr, with the relays it was seen on",
+  example: "queries.article | naddr",
+  apply: (value) => tryEncode(() => encodeNaddr(value, seenRelays(value))),
+});
+
+registerFilter({
+  name: "short_key",
+  description: "Shortened npub for display, e.g. npub1abcd…wxyz",
+  example: "note.pubkey | short_key",
+  apply: (value) => tryEncode(() => shortenKey(toPubkey(value))),
+});
+
+registerFilter({
+  name: "note_link",
+  description: "Web link to an event",
+  args: [{ name: "base", type: "string", optional: true, default: "https://njump.me/", description: "Link prefix" }],
+  example: "note | note_link",
+  apply: (value, base) => {
+    const nevent = tryEncode(() => (typeof value === "string" ? encodeNevent(value) : encodeNevent(value, seenRelays(value))));
+    return nevent ? `${base}${nevent}` : undefined;
+  },
+});
+
+registerFilter({
+  name: "profile",
+  description: "Profile fields (name, picture, ...) from a kind 0 event or its content",
+  example: "(queries.author | profile).name // \"Anon\"",
+  apply: (value) => {
+    if (typeof value === "string") return parseJsonObject(value);
+    if (!value || typeof value !== "object") return undefined;
+    // Keep the event fields (pubkey, created_at) alongside the parsed content
+    return { ...value, ...parseJsonObject(value.content) };
+  },
+});
+
+/** Tags of an event, [] for anything else */
+function getTags(value: any): string[][] {
+  return value && Array.isArray(value.tags) ? value.tags : [];
+}
+
+/** A pubkey from a string, or the author of an event / profile */
+function toPubkey(value: any): string {
+  return typeof value === "string" ? value : value?.pubkey;
+}
+
+function seenRelays(event: any): string[] | undefined {
+  const seen = event && typeof event === "object" ? getSeenRelays(event) : undefined;
+  // A couple of hints is enough, and keeps links short
+  return seen ? [...seen].slice(0, 2) : undefined;
+}
+
+function tryEncode(encode: () => string): string | undefined {
+  try {
+    return encode();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseJsonObject(json: unknown): Record<string, any> | undefined {
+  if (typeof json !== "string") return undefined;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Read a dotted field path ("author.name") from an item, the item itself if no path */
+export function getPath(item: any, path: unknown): any {
+  if (path === undefined || path === null || path === "") return item;
+  let current = item;
+  for (const part of String(path).split(".")) {
+    if (current === undefined || current === null) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/** Numeric values of a list (or of a field), skipping anything that isn't a number */
+function numbers(items: any[], key: unknown): number[] {
+  return items
+    .map((item) => getPath(item, key))
+    .filter((value) => value !== null && value !== undefined && value !== "")
+    .map(Number)
+    .filter((n) => !Number.isNaN(n));
+}
+
+/**
+ * Sort order: numbers numerically, everything else as text, missing values last
+ * `sign` -1 reverses the order of present values, missing ones stay last.
+ */
+function compareValues(a: any, b: any, sign: 1 | -1 = 1): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  if (typeof a === "number" && typeof b === "number") return sign * (a - b);
+  return sign * String(a).localeCompare(String(b));
+}
+
+/**
+ * Format a timestamp as relative time (e.g., "2 hours ago")
+ */
+function formatRelativeTime(timestamp: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const diff = now - timestamp;
+
+  if (diff < 60) return "just now";
+  if (diff < 3600) return `${Math.floor(diff / 60)}m ago`;
+  if (diff < 86400) return `${Math.floor(diff / 3600)}h ago`;
+  if (diff < 604800) return `${Math.floor(diff / 86400)}d ago`;
+  return `${Math.floor(diff / 604800)}w ago`;
+}
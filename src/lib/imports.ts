@@ -0,0 +1,169 @@
+/**
+ * Component import resolution
+ *
+ * Pages and components both declare imports in frontmatter:
+ *
+ *   imports:
+ *     AuthorLine: naddr1...
+ *
+ * Imports are resolved recursively, each component seeing only its own
+ * imports. A component that (indirectly) imports itself, or an import chain
+ * deeper than the depth limit, resolves to an error node instead.
+ *
+ * A bare naddr floats to the latest revision. To pin an exact revision use
+ * `naddr1...@<event id>` (hex, note or nevent) or an `nevent1...`.
+ */
+
+import yaml from "yaml";
+import { nip19 } from "nostr-tools";
+import { parseAddress, parseEventId, type ParsedAddress, type ParsedEventId } from "@/lib/nip19";
+
+/** Default import chain length: page -> NoteCard -> AuthorLine -> Avatar ... */
+export const MAX_IMPORT_DEPTH = 5;
+
+/** Load state of a single import */
+export interface ImportStatus {
+  /** The import as declared (naddr, naddr@id or nevent) */
+  ref: string;
+  loading: boolean;
+  error?: string;
+}
+
+/** Resolved imports of a page or component */
+export interface ComponentImports {
+  /** Component name -> AST, for every import that has loaded */
+  components: Record<string, any>;
+  /** Component name -> load status, for every declared import */
+  status: Record<string, ImportStatus>;
+  /** Component name -> that component's own resolved imports */
+  children: Record<string, ComponentImports>;
+}
+
+export const EMPTY_IMPORTS: ComponentImports = { components: {}, status: {}, children: {} };
+
+/** Stable identity of an address, independent of the naddr's relay hints */
+export function addressKey({ kind, pubkey, identifier }: ParsedAddress) {
+  return `${kind}:${pubkey}:${identifier}`;
+}
+
+/** A parsed import: an address to float on, a pinned revision, or both */
+export type ImportRef = {
+  address?: ParsedAddress;
+  pin?: ParsedEventId;
+};
+
+/**
+ * Parse an import declaration
+ * Throws if invalid
+ *
+ * @example
+ * parseImportRef("naddr1...")          // { address }         - latest revision
+ * parseImportRef("naddr1...@<hex id>") // { address, pin }    - exact revision
+ * parseImportRef("nevent1...")         // { pin }             - exact revision
+ */
+export function parseImportRef(ref: string): ImportRef {
+  const trimmed = ref.trim();
+
+  if (trimmed.startsWith("nevent") || trimmed.startsWith("note")) {
+    return { pin: parseEventId(trimmed) };
+  }
+
+  const at = trimmed.lastIndexOf("@");
+  if (at === -1) return { address: parseAddress(trimmed) };
+
+  return {
+    address: parseAddress(trimmed.slice(0, at)),
+    pin: parseEventId(trimmed.slice(at + 1)),
+  };
+}
+
+/** An import reference pinned to one revision of an address */
+export function pinnedRef(address: ParsedAddress, eventId: string): string {
+  return `${nip19.naddrEncode(address)}@${eventId}`;
+}
+
+/** Parsed frontmatter of each component AST */
+const frontmatterCache = new WeakMap<object, Record<string, any>>();
+
+/**
+ * The parsed frontmatter of a component AST ({} if it has none)
+ * Cached per AST, since imported components re-render often.
+ */
+export function getFrontmatter(ast: any): Record<string, any> {
+  if (!ast || typeof ast !== "object") return {};
+
+  const cached = frontmatterCache.get(ast);
+  if (cached) return cached;
+
+  let frontmatter: Record<string, any> = {};
+  const value = ast.children?.find((child: any) => child.type === "frontmatter")?.value;
+  try {
+    const parsed = value ? yaml.parse(value) : null;
+    if (parsed && typeof parsed === "object") frontmatter = parsed;
+  } catch {
+    // Invalid frontmatter declares nothing
+  }
+  frontmatterCache.set(ast, frontmatter);
+  return frontmatter;
+}
+
+/**
+ * The `imports:` a component AST declares in its frontmatter
+ *
+ * @example
+ * getDeclaredImports(ast) // { Avatar: "naddr1..." }
+ */
+export function getDeclaredImports(ast: any): Record<string, string> {
+  const imports = getFrontmatter(ast).imports;
+  if (!imports || typeof imports !== "object" || Array.isArray(imports)) return {};
+
+  const result: Record<string, string> = {};
+  for (const [name, ref] of Object.entries(imports)) {
+    if (typeof ref === "string") result[name] = ref;
+  }
+  return result;
+}
+
+/** An import that passed validation and should be fetched */
+export type PendingImport = ImportRef & { name: string; ref: string; key: string };
+
+/** One level of an import chain */
+export type ImportPathEntry = { name: string; key: string };
+
+/**
+ * Validate one level of imports before fetching.
+ * `path` is the chain of components that led here (empty for a page).
+ * Invalid references, cycles and imports past `maxDepth` come back as errors.
+ */
+export function checkImports(
+  imports: Record<string, string>,
+  path: ImportPathEntry[],
+  maxDepth: number
+): { pending: PendingImport[]; errors: Record<string, ImportStatus> } {
+  const pending: PendingImport[] = [];
+  const errors: Record<string, ImportStatus> = {};
+
+  for (const [name, ref] of Object.entries(imports)) {
+    let parsed: ImportRef;
+    try {
+      parsed = parseImportRef(ref);
+    } catch (e) {
+      errors[name] = { ref, loading: false, error: e instanceof Error ? e.message : "Invalid import" };
+      continue;
+    }
+
+    // Pinned nevents have no address until loaded, use the event id instead
+    const key = parsed.address ? addressKey(parsed.address) : parsed.pin!.id;
+    const cycleStart = path.findIndex((entry) => entry.key === key);
+    if (cycleStart !== -1) {
+      const chain = [...path.slice(cycleStart).map((entry) => entry.name), name];
+      errors[name] = { ref, loading: false, error: `Circular import: ${chain.join(" -> ")}` };
+    } else if (path.length >= maxDepth) {
+      errors[name] = { ref, loading: false, error: `Import depth limit (${maxDepth}) exceeded` };
+    } else {
+      pending.push({ ...parsed, name, ref, key });
+    }
+  }
+
+  return { pending, errors };
+}
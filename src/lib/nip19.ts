@@ -210,3 +210,50 @@ export function parseAny(input: string):
 
   return { type: "unknown", error: "unrecognized format" };
 }
+
+/**
+ * Encode a pubkey (npub, nprofile or hex) as npub
+ * Throws if invalid
+ */
+export function encodeNpub(input: string): string {
+  return nip19.npubEncode(parsePubkey(input).pubkey);
+}
+
+/**
+ * Encode an event id (or an event) as nevent, with optional relay hints
+ * Throws if invalid
+ */
+export function encodeNevent(
+  input: string | { id: string; pubkey?: string; kind?: number },
+  relays?: string[]
+): string {
+  if (typeof input === "string") {
+    const parsed = parseEventId(input);
+    return nip19.neventEncode({ id: parsed.id, author: parsed.author, kind: parsed.kind, relays: relays ?? parsed.relays });
+  }
+  return nip19.neventEncode({ id: input.id, author: input.pubkey, kind: input.kind, relays });
+}
+
+/**
+ * Encode an addressable event (kind 30000-39999) as naddr, with optional relay hints
+ * Throws if the event isn't addressable
+ */
+export function encodeNaddr(
+  event: { kind: number; pubkey: string; tags: string[][] },
+  relays?: string[]
+): string {
+  if (event.kind < 30000 || event.kind >= 40000) {
+    throw new Error(`Invalid address: kind ${event.kind} is not addressable`);
+  }
+  const identifier = event.tags.find((t) => t[0] === "d")?.[1] ?? "";
+  return nip19.naddrEncode({ kind: event.kind, pubkey: event.pubkey, identifier, relays });
+}
+
+/**
+ * Shorten a pubkey for display as npub1abcd…wxyz
+ * Throws if invalid
+ */
+export function shortenKey(input: string): string {
+  const npub = encodeNpub(input);
+  return `${npub.slice(0, 9)}…${npub.slice(-4)}`;
+}
@@ -0,0 +1,52 @@
+/**
+ * Outbox model (NIP-65) relay resolution
+ *
+ * Authors publish a kind 10002 relay list saying where they write.
+ * We read an author's content from their write relays and publish the
+ * logged-in user's events to theirs, falling back to DEFAULT_RELAYS
+ * when no relay list exists (yet).
+ */
+
+import type { EventStore } from "applesauce-core";
+import { mergeRelaySets } from "applesauce-core/helpers";
+import { combineLatest, distinctUntilChanged, map, of, type Observable } from "rxjs";
+import { DEFAULT_RELAYS } from "@/lib/relays";
+
+/** Most relays to read from for a multi-author query */
+const MAX_AUTHOR_RELAYS = 8;
+
+/**
+ * An author's write relays, or DEFAULT_RELAYS if they have no relay list.
+ * Emits again if the relay list loads or changes later.
+ */
+export function getAuthorRelays(eventStore: EventStore, pubkey: string): Observable<string[]> {
+  return eventStore.mailboxes(pubkey).pipe(
+    map((mailboxes) => (mailboxes?.outboxes.length ? mailboxes.outboxes : DEFAULT_RELAYS)),
+    distinctUntilChanged((a, b) => a.join("|") === b.join("|")),
+  );
+}
+
+/**
+ * Combined write relays for several authors (capped at MAX_AUTHOR_RELAYS,
+ * preferring relays shared by the most authors)
+ */
+export function getAuthorsRelays(eventStore: EventStore, pubkeys: string[]): Observable<string[]> {
+  if (pubkeys.length === 0) return of(DEFAULT_RELAYS);
+  if (pubkeys.length === 1) return getAuthorRelays(eventStore, pubkeys[0]!);
+
+  return combineLatest(pubkeys.map((pubkey) => getAuthorRelays(eventStore, pubkey))).pipe(
+    map((lists) => {
+      const counts = new Map<string, number>();
+      for (const list of lists) {
+        for (const relay of mergeRelaySets(list)) {
+          counts.set(relay, (counts.get(relay) ?? 0) + 1);
+        }
+      }
+      return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_AUTHOR_RELAYS)
+        .map(([relay]) => relay);
+    }),
+    distinctUntilChanged((a, b) => a.join("|") === b.join("|")),
+  );
+}
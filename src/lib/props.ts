@@ -0,0 +1,164 @@
+/**
+ * Prop schemas for components
+ *
+ * Component frontmatter declares the props it accepts:
+ *
+ *   props:
+ *     pubkey: { type: string, required: true, description: Author to show }
+ *     size: { type: string, options: [sm, md, lg], default: md }
+ *     limit: { type: number, default: 3 }
+ *     title: string        # shorthand for { type: string }
+ *
+ * Attributes are coerced to the declared type, missing ones fall back to the
+ * default, and missing required props are reported as errors. Attributes
+ * the schema doesn't mention are passed through untouched.
+ */
+
+import { getFrontmatter } from "@/lib/imports";
+import type { PropertyDefinition } from "@/lib/styles";
+
+export type PropType = "string" | "number" | "boolean" | "array" | "object" | "any";
+
+const PROP_TYPES = new Set<string>(["string", "number", "boolean", "array", "object", "any"]);
+
+export interface PropSchema {
+  type: PropType;
+  required?: boolean;
+  default?: any;
+  description?: string;
+  /** Allowed values (shown as a select in the properties panel) */
+  options?: string[];
+}
+
+/** Parsed prop schemas of each component AST */
+const schemaCache = new WeakMap<object, Record<string, PropSchema> | undefined>();
+
+/**
+ * The `props:` schema a component declares, or undefined if it declares none
+ *
+ * @example
+ * getPropSchemas(ast) // { size: { type: "string", options: ["sm", "md"], default: "md" } }
+ */
+export function getPropSchemas(ast: any): Record<string, PropSchema> | undefined {
+  if (!ast || typeof ast !== "object") return undefined;
+  if (schemaCache.has(ast)) return schemaCache.get(ast);
+
+  const declared = getFrontmatter(ast).props;
+  let schemas: Record<string, PropSchema> | undefined;
+  if (declared && typeof declared === "object" && !Array.isArray(declared)) {
+    schemas = {};
+    for (const [name, definition] of Object.entries(declared)) {
+      schemas[name] = toPropSchema(definition);
+    }
+  }
+
+  schemaCache.set(ast, schemas);
+  return schemas;
+}
+
+function toPropSchema(definition: unknown): PropSchema {
+  // Shorthand: `title: string`
+  if (typeof definition === "string") {
+    return { type: PROP_TYPES.has(definition) ? (definition as PropType) : "any" };
+  }
+  if (!definition || typeof definition !== "object") return { type: "any" };
+
+  const { type, required, description, options } = definition as Record<string, any>;
+  const schema: PropSchema = { type: PROP_TYPES.has(type) ? type : "any" };
+  if (required === true) schema.required = true;
+  if ("default" in definition) schema.default = (definition as Record<string, any>).default;
+  if (typeof description === "string") schema.description = description;
+  if (Array.isArray(options)) schema.options = options.map(String);
+  return schema;
+}
+
+/**
+ * Apply a component's prop schemas to the attributes it was called with.
+ *
+ * @example
+ * resolveProps({ limit: "5" }, { limit: { type: "number" }, size: { type: "string", default: "md" } })
+ * // { props: { limit: 5, size: "md" }, errors: [] }
+ * resolveProps({}, { pubkey: { type: "string", required: true } })
+ * // { props: {}, errors: ['Missing required prop "pubkey"'] }
+ */
+export function resolveProps(
+  attrs: Record<string, any>,
+  schemas: Record<string, PropSchema> | undefined
+): { props: Record<string, any>; errors: string[] } {
+  if (!schemas) return { props: attrs, errors: [] };
+
+  const props: Record<string, any> = { ...attrs };
+  const errors: string[] = [];
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    const value = attrs[name];
+
+    if (value === undefined || value === null || value === "") {
+      if (schema.default !== undefined) {
+        props[name] = schema.default;
+      } else if (schema.required) {
+        errors.push(`Missing required prop "${name}"`);
+      }
+      continue;
+    }
+
+    const coerced = coerceProp(value, schema.type);
+    if (coerced === undefined) {
+      errors.push(`Prop "${name}" expected ${schema.type}, got ${JSON.stringify(value)}`);
+    } else {
+      props[name] = coerced;
+    }
+  }
+
+  return { props, errors };
+}
+
+/** Coerce an attribute value to a prop type, undefined if it can't be */
+function coerceProp(value: any, type: PropType): any {
+  switch (type) {
+    case "string":
+      return typeof value === "object" ? undefined : String(value);
+    case "number": {
+      if (typeof value === "number") return value;
+      const number = typeof value === "string" ? Number(value.trim()) : NaN;
+      return Number.isNaN(number) ? undefined : number;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true") return true;
+      if (value === "false") return false;
+      return undefined;
+    case "array":
+    case "object": {
+      let parsed = value;
+      if (typeof value === "string") {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return undefined;
+        }
+      }
+      const isArray = Array.isArray(parsed);
+      if (type === "array") return isArray ? parsed : undefined;
+      return parsed && typeof parsed === "object" && !isArray ? parsed : undefined;
+    }
+    default:
+      return value;
+  }
+}
+
+/** Properties panel fields for a component's prop schemas */
+export function toPropertyDefinitions(schemas: Record<string, PropSchema>): PropertyDefinition[] {
+  return Object.entries(schemas).map(([name, schema]) => {
+    const options = schema.options ?? (schema.type === "boolean" ? ["true", "false"] : undefined);
+    const fallback = schema.default;
+    return {
+      name,
+      type: options ? "select" : "text",
+      options,
+      default: fallback === undefined || typeof fallback === "object" ? undefined : String(fallback),
+      description: schema.description,
+      group: "props",
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { RelayPool } from "applesauce-relay";
+import { finalizeEvent, generateSecretKey } from "nostr-tools";
+import { publishEvent, describePublish } from "@/lib/publish";
+
+/** How a local test relay answers an EVENT: an OK with this status and message, or null for no answer */
+type Reply = [ok: boolean, message: string] | null;
+
+let servers: Server<unknown>[] = [];
+
+function startRelay(reply: (attempt: number) => Reply): string {
+  let attempt = 0;
+  const server = Bun.serve({
+    port: 0,
+    fetch(req, server) {
+      if (server.upgrade(req)) return;
+      return new Response("Not a websocket", { status: 400 });
+    },
+    websocket: {
+      message(ws, data) {
+        const [type, event] = JSON.parse(String(data));
+        if (type !== "EVENT") return;
+        const answer = reply(++attempt);
+        if (answer) ws.send(JSON.stringify(["OK", event.id, ...answer]));
+      },
+    },
+  });
+  servers.push(server);
+  return `ws://localhost:${server.port}/`;
+}
+
+const event = finalizeEvent({ kind: 1, content: "hello", tags: [], created_at: 1700000000 }, generateSecretKey());
+const fast = { timeout: 200, retries: 0, backoff: 10 };
+
+let pool: RelayPool;
+beforeAll(() => {
+  pool = new RelayPool();
+});
+afterAll(() => {
+  for (const server of servers) server.stop(true);
+  servers = [];
+});
+
+describe("publishEvent", () => {
+  test("a relay that never answers times out", async () => {
+    const relay = startRelay(() => null);
+    const result = await publishEvent(pool, [relay], event, fast);
+
+    expect(result.accepted).toBe(0);
+    expect(result.relays).toEqual([{ relay, status: "timeout", message: "No response after 0.2s", attempts: 1 }]);
+  });
+
+  test("reports each relay's answer", async () => {
+    const accepting = startRelay(() => [true, ""]);
+    const duplicate = startRelay(() => [false, "duplicate: already have it"]);
+    const blocking = startRelay(() => [false, "blocked: not on allowlist"]);
+    const result = await publishEvent(pool, [accepting, duplicate, blocking, accepting], event, fast);
+
+    expect(result.accepted).toBe(2);
+    expect(result.relays.map((r) => [r.relay, r.status])).toEqual([
+      [accepting, "accepted"],
+      [duplicate, "accepted"],
+      [blocking, "rejected"],
+    ]);
+    expect(describePublish(result)).toBe("Published to 2 of 3 relays");
+  });
+
+  test("retries transient rejections but not permanent ones", async () => {
+    const limited = startRelay((attempt) => (attempt < 3 ? [false, "rate-limited: slow down"] : [true, ""]));
+    const invalid = startRelay(() => [false, "invalid: bad signature"]);
+    const result = await publishEvent(pool, [limited, invalid], event, { ...fast, retries: 2 });
+
+    expect(result.relays).toEqual([
+      { relay: limited, status: "accepted", message: undefined, attempts: 3 },
+      { relay: invalid, status: "rejected", message: "invalid: bad signature", attempts: 1 },
+    ]);
+  });
+});
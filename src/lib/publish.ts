@@ -0,0 +1,121 @@
+/**
+ * Publishing with per-relay results
+ *
+ * `pool.publish` resolves with whatever relays answered, so a publish nobody
+ * accepted and one every relay accepted look much alike. `publishEvent` sends
+ * to each relay separately and reports how each one responded:
+ *
+ *   accepted   the relay stored the event (or already had it)
+ *   rejected   the relay refused it, with its reason ("blocked: ...")
+ *   timeout    no answer in time
+ *
+ * Transient failures (timeouts, dropped connections, "rate-limited:" and
+ * "error:" replies) are retried with exponential backoff. Permanent
+ * rejections like "invalid:" or "blocked:" are not.
+ */
+
+import type { NostrEvent } from "nostr-tools";
+import type { RelayPool } from "applesauce-relay";
+import { TimeoutError } from "applesauce-core/observable";
+
+export type RelayStatus = "accepted" | "rejected" | "timeout";
+
+export interface RelayResult {
+  relay: string;
+  status: RelayStatus;
+  /** What the relay said (or why the connection failed) */
+  message?: string;
+  attempts: number;
+}
+
+export interface PublishResult {
+  event: NostrEvent;
+  relays: RelayResult[];
+  /** Number of relays that accepted the event */
+  accepted: number;
+}
+
+export interface PublishOptions {
+  /** How long to wait for each relay's answer, in ms */
+  timeout?: number;
+  /** Extra attempts for transient failures */
+  retries?: number;
+  /** Delay before the first retry, doubled after each one */
+  backoff?: number;
+}
+
+/** NIP-01 OK message prefixes worth retrying */
+const TRANSIENT_PREFIXES = ["rate-limited:", "error:"];
+
+const DEFAULTS = { timeout: 10_000, retries: 2, backoff: 1_000 };
+
+/**
+ * Publish an event to every relay, retrying transient failures
+ * Never throws: check `accepted` or the per-relay results.
+ *
+ * @example
+ * const result = await publishEvent(pool, ["wss://a", "wss://b"], signed);
+ * // { accepted: 1, relays: [{ relay: "wss://a", status: "accepted", attempts: 1 },
+ * //   { relay: "wss://b", status: "rejected", message: "blocked: not on allowlist", attempts: 1 }] }
+ */
+export async function publishEvent(
+  pool: RelayPool,
+  relays: string[],
+  event: NostrEvent,
+  options: PublishOptions = {}
+): Promise<PublishResult> {
+  const { timeout, retries, backoff } = { ...DEFAULTS, ...options };
+  const unique = [...new Set(relays)];
+
+  const results = await Promise.all(
+    unique.map(async (relay): Promise<RelayResult> => {
+      let { transient, ...result } = await publishOnce(pool, relay, event, timeout);
+      let attempts = 1;
+      while (transient && attempts <= retries) {
+        await sleep(backoff * 2 ** (attempts - 1));
+        ({ transient, ...result } = await publishOnce(pool, relay, event, timeout));
+        attempts++;
+      }
+      return { relay, ...result, attempts };
+    })
+  );
+
+  return { event, relays: results, accepted: results.filter((r) => r.status === "accepted").length };
+}
+
+/**
+ * One line summary of a publish, e.g. "Published to 2 of 3 relays"
+ */
+export function describePublish(result: PublishResult): string {
+  const total = result.relays.length;
+  if (total === 0) return "No relays to publish to";
+  if (result.accepted === 0) return `Failed to publish to any of ${total} relay${total === 1 ? "" : "s"}`;
+  return `Published to ${result.accepted} of ${total} relay${total === 1 ? "" : "s"}`;
+}
+
+/** A single try at one relay, and whether it's worth trying again */
+type Attempt = Pick<RelayResult, "status" | "message"> & { transient: boolean };
+
+async function publishOnce(pool: RelayPool, relay: string, event: NostrEvent, timeout: number): Promise<Attempt> {
+  try {
+    // Retries are handled here, so the relay shouldn't reconnect-and-retry on its own
+    const response = await pool.relay(relay).publish(event, { reconnect: false, timeout });
+    // A duplicate means the relay already has the event, which is what we wanted
+    if (response.ok || response.message?.startsWith("duplicate:")) {
+      return { status: "accepted", message: response.message || undefined, transient: false };
+    }
+    const message = response.message || "Rejected";
+    return { status: "rejected", message, transient: TRANSIENT_PREFIXES.some((prefix) => message.startsWith(prefix)) };
+  } catch (error) {
+    // No OK from the relay within `timeout`
+    if (error instanceof TimeoutError) {
+      return { status: "timeout", message: `No response after ${timeout / 1000}s`, transient: true };
+    }
+    // Couldn't connect or the connection dropped
+    return { status: "rejected", message: error instanceof Error ? error.message : "Connection failed", transient: true };
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { buildQueryGraph, collectQueryDependencies, resolveQueryReferences } from "@/lib/queries";
+
+describe("collectQueryDependencies", () => {
+  test("finds queries referenced anywhere in a declaration", () => {
+    expect(
+      collectQueryDependencies({
+        filter: { authors: ["queries.article.pubkey"], "#e": "{queries.thread.id // queries.root.id}", kinds: [1] },
+      })
+    ).toEqual(["article", "thread", "root"]);
+  });
+
+  test("ignores query status and plain strings", () => {
+    expect(collectQueryDependencies({ profile: "queries.$status.author.eose", event: "queries" })).toEqual([]);
+  });
+});
+
+describe("buildQueryGraph", () => {
+  test("orders queries after their dependencies", () => {
+    const graph = buildQueryGraph({
+      replies: { filter: { "#e": "queries.thread.id" } },
+      author: { profile: "queries.thread.pubkey" },
+      thread: { event: "note1" },
+    });
+    expect(graph.order).toEqual(["thread", "replies", "author"]);
+    expect(graph.errors).toEqual({});
+  });
+
+  test("reports cycles, unknown queries and queries that depend on them", () => {
+    const graph = buildQueryGraph({
+      a: { profile: "queries.b.pubkey" },
+      b: { profile: "queries.a.pubkey" },
+      lost: { event: "queries.nope.id" },
+      after: { profile: "queries.lost.pubkey" },
+      fine: { event: "note1" },
+    });
+    expect(graph.order).toEqual(["fine"]);
+    expect(graph.errors).toEqual({
+      a: "Circular query dependency: a -> b -> a",
+      b: "Circular query dependency: a -> b -> a",
+      lost: 'Unknown query "nope"',
+      after: 'Depends on failed query "lost"',
+    });
+  });
+});
+
+describe("resolveQueryReferences", () => {
+  test("fills in results and wraps single values where relays expect arrays", () => {
+    const query = { type: "timeline", filter: { kinds: [1], authors: "queries.thread.pubkey" } };
+    expect(resolveQueryReferences(query as any, { thread: { pubkey: "abc" } })).toEqual({
+      type: "timeline",
+      filter: { kinds: [1], authors: ["abc"] },
+    });
+  });
+
+  test("is undefined until every reference resolves", () => {
+    const query = { type: "profile", pubkey: "queries.thread.pubkey" };
+    expect(resolveQueryReferences(query as any, {})).toBeUndefined();
+  });
+});
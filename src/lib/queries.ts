@@ -0,0 +1,177 @@
+/**
+ * Dependent query support
+ *
+ * Query declarations can reference the results of other queries:
+ *
+ *   queries:
+ *     thread:
+ *       event: "nevent1..."
+ *     replies:
+ *       filter:
+ *         kinds: [1]
+ *         "#e": queries.thread.id
+ *     author:
+ *       profile: queries.thread.pubkey
+ *
+ * Any string value that starts with `queries.` or is wrapped in `{...}` is an
+ * expression, evaluated against the results of the queries it mentions.
+ * A query only runs once all of its references resolve.
+ */
+
+import { evaluate, type EvaluationScope } from "@/lib/evaluator";
+import { parseExpression, walkExpression, type ExpressionNode } from "@/lib/expression";
+
+/** Filter keys that relays expect as arrays */
+const ARRAY_FILTER_KEYS = new Set(["ids", "authors", "kinds"]);
+
+export function isQueryReference(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  const trimmed = value.trim();
+  return trimmed.startsWith("queries.") || (trimmed.startsWith("{") && trimmed.endsWith("}"));
+}
+
+/**
+ * Names of the queries a declaration references
+ *
+ * @example
+ * collectQueryDependencies({ filter: { authors: ["queries.article.pubkey"] } }) // ["article"]
+ */
+export function collectQueryDependencies(definition: unknown): string[] {
+  const names = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (isQueryReference(value)) {
+      try {
+        collectFromExpression(parseExpression(value.trim().replace(/^{|}$/g, "")), names);
+      } catch {
+        // Invalid expressions resolve to undefined later, nothing to depend on
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(definition);
+  return [...names];
+}
+
+function collectFromExpression(node: ExpressionNode, names: Set<string>) {
+  walkExpression(node, (node) => {
+    if (node.type === "member" && node.object.type === "identifier" && node.object.name === "queries") {
+      // queries.$status is metadata, not a query
+      if (!String(node.property).startsWith("$")) names.add(String(node.property));
+      return false;
+    }
+  });
+}
+
+export interface QueryGraph {
+  /** Query names in an order where every query comes after its dependencies */
+  order: string[];
+  /** Dependencies of each query */
+  dependencies: Record<string, string[]>;
+  /** Queries that can never run (cycles, unknown references), with the reason */
+  errors: Record<string, string>;
+}
+
+/**
+ * Build the dependency graph for a set of query declarations.
+ * Queries in a cycle, or depending on an unknown or broken query, are
+ * reported in `errors` and left out of `order`.
+ */
+export function buildQueryGraph(definitions: Record<string, unknown>): QueryGraph {
+  const dependencies: Record<string, string[]> = {};
+  for (const [name, definition] of Object.entries(definitions)) {
+    dependencies[name] = collectQueryDependencies(definition);
+  }
+
+  const order: string[] = [];
+  const errors: Record<string, string> = {};
+  const state: Record<string, "visiting" | "done"> = {};
+
+  const visit = (name: string, path: string[]): boolean => {
+    if (state[name] === "done") return !errors[name];
+    if (state[name] === "visiting") {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      for (const member of cycle) {
+        errors[member] ??= `Circular query dependency: ${cycle.join(" -> ")}`;
+      }
+      return false;
+    }
+
+    state[name] = "visiting";
+    let ok = true;
+    for (const dependency of dependencies[name]!) {
+      if (!(dependency in definitions)) {
+        errors[name] ??= `Unknown query "${dependency}"`;
+        ok = false;
+      } else if (!visit(dependency, [...path, name])) {
+        errors[name] ??= `Depends on failed query "${dependency}"`;
+        ok = false;
+      }
+    }
+    state[name] = "done";
+
+    if (ok && !errors[name]) order.push(name);
+    return ok && !errors[name];
+  };
+
+  for (const name of Object.keys(definitions)) {
+    visit(name, []);
+  }
+
+  return { order, dependencies, errors };
+}
+
+/**
+ * Replace references in a query declaration with values from `queries`.
+ * Returns undefined while any reference is still unresolved (null/undefined).
+ *
+ * References inside arrays that resolve to arrays are spread, and filter keys
+ * that must be arrays (ids, authors, kinds, #tags) are wrapped if needed, so
+ * both `"#e": queries.thread.id` and `authors: [queries.contacts]` work.
+ */
+export function resolveQueryReferences<T>(definition: T, queries: Record<string, any>): T | undefined {
+  const scope = { queries, form: {}, updateForm: () => {}, executeAction: async () => {}, isPublishing: false } as EvaluationScope;
+  let missing = false;
+
+  const resolve = (value: any): any => {
+    if (isQueryReference(value)) {
+      const result = evaluate(value, scope);
+      if (result === undefined || result === null) missing = true;
+      return result;
+    }
+
+    if (Array.isArray(value)) {
+      return value.flatMap((item) => {
+        const resolved = resolve(item);
+        return isQueryReference(item) && Array.isArray(resolved) ? resolved : [resolved];
+      });
+    }
+
+    if (value && typeof value === "object") {
+      const resolved: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) {
+        resolved[k] = resolve(v);
+      }
+      return resolved;
+    }
+
+    return value;
+  };
+
+  const wrapArrays = (value: any): any => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      const mustBeArray = ARRAY_FILTER_KEYS.has(k) || k.startsWith("#");
+      result[k] = mustBeArray && v !== undefined && !Array.isArray(v) ? [v] : wrapArrays(v);
+    }
+    return result;
+  };
+
+  const resolved = wrapArrays(resolve(definition));
+  return missing ? undefined : resolved;
+}
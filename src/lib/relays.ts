@@ -1,8 +1,10 @@
+// Fallback read/write relays for users without a NIP-65 relay list (see lib/outbox.ts)
 export const DEFAULT_RELAYS = [
   "wss://nos.lol",
   "wss://relay.damus.io",
 ];
 
+// Relays that index profiles and relay lists
 export const LOOKUP_RELAYS = [
   "wss://purplepag.es",
   "wss://index.hzrd149.com",
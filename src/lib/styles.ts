@@ -547,7 +547,8 @@ export interface PropertyDefinition {
   type: "select" | "color" | "text";
   options?: string[];
   default?: string;
-  group: "layout" | "size" | "appearance" | "spacing" | "text" | "alignment";
+  description?: string;
+  group: "layout" | "size" | "appearance" | "spacing" | "text" | "alignment" | "props";
 }
 
 export const CONTAINER_PROPERTIES: PropertyDefinition[] = [
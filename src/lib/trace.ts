@@ -0,0 +1,50 @@
+/**
+ * Opt-in debug tracing for expression evaluation and rendering
+ *
+ * Off by default - logging every lookup makes large pages crawl.
+ * Enable with `localStorage.setItem("hn-trace", "1")` and reload,
+ * or call `setTrace(true)`.
+ *
+ * Problems worth reporting with tracing off go through `warnOnce`, so they
+ * show up once instead of on every render.
+ */
+
+let enabled = readStoredSetting();
+
+function readStoredSetting(): boolean {
+  try {
+    return globalThis.localStorage?.getItem("hn-trace") === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function setTrace(on: boolean) {
+  enabled = on;
+}
+
+/** Check before building expensive trace arguments */
+export function isTracing(): boolean {
+  return enabled;
+}
+
+export function trace(...args: unknown[]) {
+  if (enabled) console.log(...args);
+}
+
+/** Most distinct warnings remembered by warnOnce before starting over */
+const MAX_WARNINGS = 2000;
+
+const warned = new Set<string>();
+
+/**
+ * console.warn a message only the first time it comes up
+ * For problems that would otherwise repeat on every render, like an unknown
+ * filter inside an <Each>.
+ */
+export function warnOnce(message: string) {
+  if (warned.has(message)) return;
+  if (warned.size >= MAX_WARNINGS) warned.clear();
+  warned.add(message);
+  console.warn(message);
+}
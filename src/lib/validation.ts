@@ -0,0 +1,117 @@
+/**
+ * Declarative form validation
+ *
+ * Pages declare rules per form field in frontmatter:
+ *
+ *   validate:
+ *     title: { required: true, minLength: 3, maxLength: 80 }
+ *     website: { pattern: "^https://", message: Must be an https link }
+ *     amount: { required: true, min: 1, max: 1000 }
+ *     ends: { rule: "value > form.starts", message: Must end after it starts }
+ *     name: required        # shorthand for { required: true }
+ *
+ * `rule` is an expression with the field's value bound as `value`. Each field
+ * reports its first failing rule; `message` replaces the default text.
+ * Errors are exposed to the page as `form.$errors.<field>`.
+ */
+
+import { evaluate, type EvaluationScope, type FormValue } from "@/lib/evaluator";
+
+export interface FieldRules {
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+  /** Expression that must be truthy, with the field's value bound as `value` */
+  rule?: string;
+  /** Shown instead of the default message of whichever rule fails */
+  message?: string;
+}
+
+/**
+ * The `validate:` rules a page declares ({} if none)
+ *
+ * @example
+ * getValidationRules({ validate: { name: "required", age: { min: 18 } } })
+ * // { name: { required: true }, age: { min: 18 } }
+ */
+export function getValidationRules(frontmatter: Record<string, any> | null | undefined): Record<string, FieldRules> {
+  const declared = frontmatter?.validate;
+  if (!declared || typeof declared !== "object" || Array.isArray(declared)) return {};
+
+  const rules: Record<string, FieldRules> = {};
+  for (const [field, definition] of Object.entries(declared)) {
+    if (definition === "required") {
+      rules[field] = { required: true };
+    } else if (definition && typeof definition === "object" && !Array.isArray(definition)) {
+      rules[field] = definition as FieldRules;
+    } else {
+      console.warn(`Invalid validation rules for "${field}"`);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Check form values against validation rules
+ * Returns the first error message of every invalid field ({} when valid).
+ *
+ * @example
+ * validateForm({ title: { required: true, minLength: 3 } }, { title: "hi" }, scope)
+ * // { title: "Must be at least 3 characters" }
+ */
+export function validateForm(
+  rules: Record<string, FieldRules>,
+  form: Record<string, FormValue>,
+  scope: EvaluationScope
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const [field, fieldRules] of Object.entries(rules)) {
+    const error = validateField(form[field], fieldRules, scope);
+    if (error) errors[field] = error;
+  }
+  return errors;
+}
+
+function validateField(value: FormValue | undefined, rules: FieldRules, scope: EvaluationScope): string | undefined {
+  const fail = (message: string) => rules.message ?? message;
+  const empty = value === undefined || value === null || value === "" || value === false;
+
+  if (empty) {
+    // Optional fields are only checked once filled in, except for custom rules
+    if (rules.required) return fail("Required");
+  } else {
+    const text = String(value);
+    if (rules.minLength !== undefined && text.length < rules.minLength) {
+      return fail(`Must be at least ${rules.minLength} characters`);
+    }
+    if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+      return fail(`Must be at most ${rules.maxLength} characters`);
+    }
+    if (rules.pattern !== undefined && !matches(text, rules.pattern)) {
+      return fail("Invalid format");
+    }
+    if (rules.min !== undefined || rules.max !== undefined) {
+      const number = typeof value === "number" ? value : Number(text.trim());
+      if (Number.isNaN(number)) return fail("Must be a number");
+      if (rules.min !== undefined && number < rules.min) return fail(`Must be at least ${rules.min}`);
+      if (rules.max !== undefined && number > rules.max) return fail(`Must be at most ${rules.max}`);
+    }
+  }
+
+  if (rules.rule && !evaluate(rules.rule, { ...scope, value } as EvaluationScope)) {
+    return fail("Invalid");
+  }
+  return undefined;
+}
+
+function matches(text: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(text);
+  } catch {
+    console.warn(`Invalid validation pattern: ${pattern}`);
+    return true;
+  }
+}